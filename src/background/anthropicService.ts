@@ -0,0 +1,518 @@
+/**
+ * Anthropic Messages API service
+ * Talks to /v1/messages directly (streaming, images and native tool use)
+ */
+
+import type {
+  AnthropicContentBlock,
+  AnthropicMessage,
+  AnthropicRequest,
+  ChatMessage,
+  ImageAttachment,
+  LLMStreamRequest,
+  LLMSettings,
+  ReasoningEffort,
+} from '@/shared/types/llm';
+import type { StreamEvent } from '@/shared/types/messages';
+import { mcpService } from './mcpService';
+import { fetchWithRetry } from './fetchWithRetry';
+import {
+  getMaxToolRounds,
+  runToolCall,
+  reportFailedToolCall,
+  getAnsweredToolCallIds,
+} from './toolExecution';
+import { createToolRegistry, type ToolRegistry } from './toolRegistry';
+import { getToolResultImages, getToolResultText } from '@/shared/utils/toolResults';
+import { supportsImageInput } from '@/shared/utils/modelFamilies';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Extended thinking budget per reasoning effort (Anthropic's minimum is 1024)
+const THINKING_BUDGET_TOKENS: Record<ReasoningEffort, number> = {
+  low: 1024,
+  medium: 4096,
+  high: 16384,
+};
+
+/**
+ * Build request headers for the Anthropic API
+ */
+function buildAnthropicHeaders(settings: LLMSettings): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': settings.apiKey,
+    'anthropic-version': ANTHROPIC_VERSION,
+    // Required for requests coming from a browser context (extension pages / service worker)
+    'anthropic-dangerous-direct-browser-access': 'true',
+  };
+}
+
+/**
+ * Token limit, sampling and extended thinking settings for a request
+ * The thinking budget counts toward max_tokens, so the answer budget is added
+ * on top; thinking also doesn't allow changing temperature or top_p
+ */
+function buildGenerationParams(
+  settings: LLMSettings
+): Pick<AnthropicRequest, 'max_tokens' | 'thinking' | 'temperature' | 'top_p' | 'stop_sequences'> {
+  const params = settings.generation || {};
+  const maxTokens = params.maxTokens ?? DEFAULT_MAX_TOKENS;
+  const stopSequences = params.stop?.length ? { stop_sequences: params.stop } : {};
+
+  if (!settings.reasoningEffort) {
+    return {
+      max_tokens: maxTokens,
+      temperature: params.temperature,
+      top_p: params.topP,
+      ...stopSequences,
+    };
+  }
+
+  const budget = THINKING_BUDGET_TOKENS[settings.reasoningEffort];
+  return {
+    max_tokens: maxTokens + budget,
+    thinking: { type: 'enabled', budget_tokens: budget },
+    ...stopSequences,
+  };
+}
+
+/**
+ * Format MCP tools for Anthropic tool use format
+ */
+function formatMCPToolsForAnthropic(toolRegistry: ToolRegistry): NonNullable<AnthropicRequest['tools']> {
+  return mcpService.getAllTools().map((tool) => ({
+    name: toolRegistry.getAlias(tool.serverId, tool.name),
+    description: tool.description,
+    input_schema: tool.inputSchema,
+  }));
+}
+
+/**
+ * Convert an image attachment (data URL) into an Anthropic image block
+ */
+function toImageBlock(image: ImageAttachment): AnthropicContentBlock | null {
+  const match = /^data:([^;]+);base64,(.*)$/.exec(image.data);
+  if (!match) {
+    console.warn('[Anthropic] Skipping image that is not a base64 data URL:', image.name);
+    return null;
+  }
+
+  return {
+    type: 'image',
+    source: {
+      type: 'base64',
+      media_type: match[1] || image.mimeType,
+      data: match[2],
+    },
+  };
+}
+
+/**
+ * Content of a tool_result block: plain text, or text followed by the images
+ */
+function toToolResultContent(text: string, images: ImageAttachment[]): string | AnthropicContentBlock[] {
+  if (images.length === 0) {
+    return text;
+  }
+
+  return [
+    { type: 'text', text },
+    ...images.map(toImageBlock).filter((block): block is AnthropicContentBlock => block !== null),
+  ];
+}
+
+/**
+ * Convert chat messages into the Anthropic shape
+ * System messages are lifted into the top-level `system` field; stored tool
+ * calls become tool_use blocks and `tool` messages become tool_result blocks
+ */
+function toAnthropicMessages(messages: ChatMessage[], toolRegistry: ToolRegistry): {
+  system: string;
+  messages: AnthropicMessage[];
+} {
+  const systemParts: string[] = [];
+  const anthropicMessages: AnthropicMessage[] = [];
+  const answeredToolCallIds = getAnsweredToolCallIds(messages);
+  const failedToolCallIds = new Set<string>();
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      if (msg.content) {
+        systemParts.push(msg.content);
+      }
+      continue;
+    }
+
+    if (msg.role === 'tool') {
+      const resultBlock: AnthropicContentBlock = {
+        type: 'tool_result',
+        tool_use_id: msg.toolCallId,
+        content: toToolResultContent(msg.content, msg.images || []),
+        ...(failedToolCallIds.has(msg.toolCallId || '') && { is_error: true }),
+      };
+
+      // Results for one round go back together in a single user turn
+      const previous = anthropicMessages[anthropicMessages.length - 1];
+      if (previous?.role === 'user' && Array.isArray(previous.content)
+        && previous.content.every((block) => block.type === 'tool_result')) {
+        previous.content.push(resultBlock);
+      } else {
+        anthropicMessages.push({ role: 'user', content: [resultBlock] });
+      }
+      continue;
+    }
+
+    const answeredToolCalls = (msg.toolCalls || []).filter((call) => answeredToolCallIds.has(call.id));
+    if (msg.role === 'assistant' && answeredToolCalls.length > 0) {
+      const blocks: AnthropicContentBlock[] = msg.content ? [{ type: 'text', text: msg.content }] : [];
+
+      for (const call of answeredToolCalls) {
+        if (call.status === 'error') {
+          failedToolCallIds.add(call.id);
+        }
+        blocks.push({
+          type: 'tool_use',
+          id: call.id,
+          name: toolRegistry.getAlias(call.serverId, call.toolName),
+          input: call.arguments,
+        });
+      }
+
+      anthropicMessages.push({ role: 'assistant', content: blocks });
+      continue;
+    }
+
+    if (msg.images && msg.images.length > 0) {
+      const blocks: AnthropicContentBlock[] = msg.images
+        .map(toImageBlock)
+        .filter((block): block is AnthropicContentBlock => block !== null);
+
+      if (msg.content) {
+        blocks.push({ type: 'text', text: msg.content });
+      }
+
+      anthropicMessages.push({ role: msg.role, content: blocks });
+      continue;
+    }
+
+    anthropicMessages.push({ role: msg.role, content: msg.content });
+  }
+
+  return {
+    system: systemParts.join('\n\n'),
+    messages: anthropicMessages,
+  };
+}
+
+/**
+ * Execute tool_use blocks against MCP servers and build tool_result blocks
+ * Result images are included only if sendImages is set (the model accepts images)
+ * Blocks whose input didn't parse (invalidInputs, by block ID) are reported as failed without running
+ */
+async function executeToolUseBlocks(
+  toolUseBlocks: AnthropicContentBlock[],
+  invalidInputs: Record<string, string>,
+  round: number,
+  toolRegistry: ToolRegistry,
+  sendImages: boolean,
+  streamId: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<AnthropicContentBlock[]> {
+  const toolResults: AnthropicContentBlock[] = [];
+
+  for (const block of toolUseBlocks) {
+    // Stop before starting the next tool if the user cancelled
+    signal?.throwIfAborted();
+
+    const target = toolRegistry.resolve(block.name || '');
+    const toolCallId = block.id || `tool_${Date.now()}`;
+
+    if (!target) {
+      reportFailedToolCall(
+        { id: toolCallId, round, toolName: block.name || 'unknown', arguments: block.input || {} },
+        'Unknown tool',
+        onEvent
+      );
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: `Error: Unknown tool ${block.name}`,
+        is_error: true,
+      });
+      continue;
+    }
+
+    const inputError = invalidInputs[block.id || ''];
+    if (inputError) {
+      reportFailedToolCall(
+        { id: toolCallId, round, serverId: target.serverId, toolName: target.toolName, arguments: {} },
+        `Invalid arguments: ${inputError}`,
+        onEvent
+      );
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: `Error: Invalid arguments: ${inputError}`,
+        is_error: true,
+      });
+      continue;
+    }
+
+    const result = await runToolCall({
+      id: toolCallId,
+      round,
+      serverId: target.serverId,
+      toolName: target.toolName,
+      arguments: block.input || {},
+    }, streamId, onEvent, signal);
+
+    if (result.success) {
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: toToolResultContent(
+          getToolResultText(result.content),
+          sendImages ? getToolResultImages(result.content) : []
+        ),
+      });
+    } else {
+      toolResults.push({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: `Error: ${result.error}`,
+        is_error: true,
+      });
+    }
+  }
+
+  return toolResults;
+}
+
+/**
+ * Process an Anthropic SSE stream
+ * Emits text deltas and collects the final content blocks (including tool_use)
+ * tool_use blocks whose input JSON doesn't parse keep an empty input (the API
+ * needs an object when the turn is replayed) and their error in invalidInputs
+ */
+async function processAnthropicStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+): Promise<{
+  contentBlocks: AnthropicContentBlock[];
+  invalidInputs: Record<string, string>;
+  stopReason: string | null;
+}> {
+  if (!response.body) {
+    throw new Error('Response body is null');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const contentBlocks: AnthropicContentBlock[] = [];
+  const partialToolInput: Record<number, string> = {};
+  const invalidInputs: Record<string, string> = {};
+  let stopReason: string | null = null;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+    for (const line of lines) {
+      const trimmedLine = line.trim();
+
+      // Event names are repeated in the payload's `type`, so only data lines matter
+      if (!trimmedLine.startsWith('data: ')) {
+        continue;
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(trimmedLine.slice(6));
+      } catch (e) {
+        console.error('Error parsing Anthropic SSE data:', e, trimmedLine);
+        continue;
+      }
+
+      switch (data.type) {
+        case 'message_start': {
+          const usage = data.message?.usage;
+          if (usage) {
+            inputTokens = usage.input_tokens || 0;
+            outputTokens = usage.output_tokens || 0;
+          }
+          break;
+        }
+
+        case 'content_block_start': {
+          contentBlocks[data.index] = { ...data.content_block };
+          if (data.content_block?.type === 'tool_use') {
+            partialToolInput[data.index] = '';
+          }
+          break;
+        }
+
+        case 'content_block_delta': {
+          const block = contentBlocks[data.index];
+          if (!block) break;
+
+          if (data.delta?.type === 'text_delta') {
+            block.text = (block.text || '') + data.delta.text;
+            onEvent({ type: 'text_delta', text: data.delta.text });
+          } else if (data.delta?.type === 'thinking_delta') {
+            block.thinking = (block.thinking || '') + data.delta.thinking;
+            onEvent({ type: 'reasoning_delta', text: data.delta.thinking });
+          } else if (data.delta?.type === 'signature_delta') {
+            // Thinking blocks are replayed in tool rounds and must keep their signature
+            block.signature = (block.signature || '') + data.delta.signature;
+          } else if (data.delta?.type === 'input_json_delta') {
+            partialToolInput[data.index] += data.delta.partial_json || '';
+          }
+          break;
+        }
+
+        case 'content_block_stop': {
+          const block = contentBlocks[data.index];
+          if (block?.type === 'tool_use') {
+            const json = partialToolInput[data.index];
+            try {
+              block.input = json ? JSON.parse(json) : {};
+            } catch (e) {
+              console.error('Error parsing tool_use input:', e, json);
+              block.input = {};
+              invalidInputs[block.id || ''] = String(e);
+            }
+          }
+          break;
+        }
+
+        case 'message_delta': {
+          if (data.delta?.stop_reason) {
+            stopReason = data.delta.stop_reason;
+          }
+          // message_delta carries the cumulative output token count
+          if (data.usage?.output_tokens !== undefined) {
+            outputTokens = data.usage.output_tokens;
+          }
+          break;
+        }
+
+        case 'error': {
+          throw new Error(`API error: ${data.error?.type || 'error'} - ${data.error?.message || 'Unknown error'}`);
+        }
+      }
+    }
+  }
+
+  if (inputTokens || outputTokens) {
+    onEvent({
+      type: 'usage',
+      usage: {
+        promptTokens: inputTokens,
+        completionTokens: outputTokens,
+        totalTokens: inputTokens + outputTokens,
+      },
+    });
+  }
+
+  return { contentBlocks: contentBlocks.filter(Boolean), invalidInputs, stopReason };
+}
+
+/**
+ * Stream a chat message from the Anthropic Messages API
+ * Tools are always passed natively; Anthropic has first-class tool use
+ * @throws on API or network failure (see streamChatMessage for error reporting)
+ */
+export async function streamAnthropicMessage(
+  request: LLMStreamRequest,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { messages, settings } = request;
+
+  const toolRegistry = createToolRegistry();
+  const { system, messages: anthropicMessages } = toAnthropicMessages(messages, toolRegistry);
+  const tools = request.disableTools ? [] : formatMCPToolsForAnthropic(toolRegistry);
+
+  console.log('[Anthropic] Available MCP tools:', tools.length);
+
+  const headers = buildAnthropicHeaders(settings);
+  const maxToolRounds = getMaxToolRounds(settings);
+  let conversationMessages = [...anthropicMessages];
+  let round = 0;
+  let finishReason: string | null = null;
+
+  while (true) {
+    // On the last allowed round, ask for an answer instead of more tool calls
+    const isFinalRound = round >= maxToolRounds;
+
+    const anthropicRequest: AnthropicRequest = {
+      model: settings.model,
+      messages: conversationMessages,
+      ...buildGenerationParams(settings),
+      stream: true,
+      ...(system && { system }),
+      ...(tools.length > 0 && {
+        tools,
+        ...(isFinalRound && { tool_choice: { type: 'none' as const } }),
+      }),
+    };
+
+    const response = await fetchWithRetry(settings.apiEndpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(anthropicRequest),
+      signal,
+    }, settings, onEvent);
+
+    const { contentBlocks, invalidInputs, stopReason } = await processAnthropicStream(response, onEvent);
+    const toolUseBlocks = contentBlocks.filter((block) => block.type === 'tool_use');
+    finishReason = stopReason;
+
+    if (stopReason !== 'tool_use' || toolUseBlocks.length === 0) {
+      break;
+    }
+
+    if (isFinalRound) {
+      console.warn(`[Anthropic] Tool round limit (${maxToolRounds}) reached, dropping ${toolUseBlocks.length} tool calls`);
+      finishReason = 'tool_round_limit';
+      break;
+    }
+
+    round++;
+
+    const toolResults = await executeToolUseBlocks(
+      toolUseBlocks,
+      invalidInputs,
+      round,
+      toolRegistry,
+      supportsImageInput(settings),
+      request.streamId,
+      onEvent,
+      signal
+    );
+
+    console.log(`[Anthropic] Making follow-up request ${round}/${maxToolRounds} with tool results...`);
+
+    conversationMessages = [
+      ...conversationMessages,
+      { role: 'assistant', content: contentBlocks },
+      { role: 'user', content: toolResults },
+    ];
+  }
+
+  onEvent({ type: 'done', finishReason });
+}
@@ -0,0 +1,132 @@
+/**
+ * Fetch wrapper that retries transient LLM API failures with exponential backoff
+ */
+
+import type { LLMSettings } from '@/shared/types/llm';
+import type { StreamEvent } from '@/shared/types/messages';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_MAX_DELAY_MS } from '@/shared/constants';
+
+const BASE_DELAY_MS = 1000;
+
+/**
+ * Non-OK response from an LLM API
+ */
+export class APIError extends Error {
+  constructor(public status: number, body: string) {
+    super(`API error: ${status} - ${body}`);
+    this.name = 'APIError';
+  }
+}
+
+/**
+ * Rate limits and server errors are worth retrying; other 4xx are not
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const seconds = Number(header);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Wait for `ms`, rejecting early if the request is cancelled
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * POST to an LLM API, retrying 429/5xx responses and network errors
+ * Only failures before the response starts are retried, so nothing has been
+ * streamed to the user yet. Retry-After is honoured up to the configured max
+ * delay; a longer wait fails right away instead.
+ * @throws APIError for non-retryable or exhausted failures
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  settings: LLMSettings,
+  onEvent?: (event: StreamEvent) => void
+): Promise<Response> {
+  const maxRetries = settings.retry?.maxRetries ?? DEFAULT_MAX_RETRIES;
+  const maxDelayMs = settings.retry?.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+
+  for (let attempt = 0; ; attempt++) {
+    let failure: Error;
+    let retryAfterMs: number | null = null;
+
+    // fetch() only rejects on network failures (or when cancelled)
+    const result = await fetch(url, init).catch((error: unknown) => {
+      if (init.signal?.aborted) {
+        throw error;
+      }
+      return error instanceof Error ? error : new Error(String(error));
+    });
+
+    if (result instanceof Response) {
+      if (result.ok) {
+        return result;
+      }
+
+      const errorText = await result.text();
+      failure = new APIError(result.status, errorText);
+
+      if (!isRetryableStatus(result.status)) {
+        throw failure;
+      }
+
+      retryAfterMs = parseRetryAfter(result.headers.get('Retry-After'));
+    } else {
+      failure = result;
+    }
+
+    if (attempt >= maxRetries || (retryAfterMs !== null && retryAfterMs > maxDelayMs)) {
+      throw failure;
+    }
+
+    // Exponential backoff with jitter, unless the server said how long to wait
+    const delayMs = retryAfterMs ?? Math.min(
+      maxDelayMs,
+      BASE_DELAY_MS * 2 ** attempt + Math.random() * BASE_DELAY_MS
+    );
+
+    console.warn(`[LLM] Request failed (${failure.message}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delayMs)}ms`);
+    onEvent?.({
+      type: 'retrying',
+      attempt: attempt + 1,
+      maxRetries,
+      delayMs,
+      reason: failure instanceof APIError ? `HTTP ${failure.status}` : 'Network error',
+    });
+
+    await sleep(delayMs, init.signal ?? undefined);
+  }
+}
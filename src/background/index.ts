@@ -3,11 +3,16 @@ import { DEFAULT_SETTINGS } from '@/shared/constants';
 import { getSettings, saveSettings } from '@/shared/utils/storage';
 import { streamChatMessage } from './llmService';
 import { MessageType } from '@/shared/types/messages';
-import type { SendChatMessage } from '@/shared/types/messages';
+import type { SendChatMessage, ChatStreamAbort, ToolApprovalResponse } from '@/shared/types/messages';
 import { mcpService } from './mcpService';
+import { resolveToolApproval } from './toolApproval';
+import { handleSamplingRequest } from './sampling';
 
 console.log('Background service worker started');
 
+// Servers' sampling requests go to the user's model once approved
+mcpService.setSamplingHandler(handleSamplingRequest);
+
 /**
  * Connect to enabled MCP servers from settings
  */
@@ -103,34 +108,54 @@ chrome.runtime.onStartup.addListener(async () => {
   await connectMCPServers();
 });
 
+// In-flight streams, keyed by streamId, so they can be cancelled
+const activeStreams = new Map<string, AbortController>();
+
 // Handle long-lived connections for streaming
 chrome.runtime.onConnect.addListener((port) => {
   if (port.name === 'chat-stream') {
     console.log('Stream port connected');
 
-    port.onMessage.addListener(async (message: SendChatMessage) => {
+    // Streams started on this port (aborted if the side panel goes away)
+    const portStreamIds = new Set<string>();
+
+    port.onMessage.addListener(async (message: SendChatMessage | ChatStreamAbort | ToolApprovalResponse) => {
+      if (message.type === MessageType.CHAT_STREAM_ABORT) {
+        console.log('Aborting stream:', message.streamId);
+        activeStreams.get(message.streamId)?.abort();
+        return;
+      }
+
+      // Only the port that started a stream can answer its approval requests
+      if (message.type === MessageType.TOOL_APPROVAL_RESPONSE) {
+        if (portStreamIds.has(message.streamId)) {
+          resolveToolApproval(message.streamId, message.toolCallId, message.decision);
+        }
+        return;
+      }
+
       if (message.type === MessageType.SEND_CHAT_MESSAGE && message.stream && message.streamId) {
         console.log('Starting stream:', message.streamId);
 
+        const streamId = message.streamId;
+        const abortController = new AbortController();
+        activeStreams.set(streamId, abortController);
+        portStreamIds.add(streamId);
+
         try {
           await streamChatMessage(
             {
               messages: message.messages,
               settings: message.settings,
+              disableTools: message.disableTools,
+              streamId,
             },
-            (chunk) => {
-              // Send chunk to client
+            (event) => {
+              // Forward stream event to client (the final one is `done`)
               port.postMessage({
-                type: MessageType.CHAT_STREAM_CHUNK,
-                streamId: message.streamId,
-                chunk,
-              });
-            },
-            () => {
-              // Stream complete
-              port.postMessage({
-                type: MessageType.CHAT_STREAM_END,
+                type: MessageType.CHAT_STREAM_EVENT,
                 streamId: message.streamId,
+                event,
               });
             },
             (error) => {
@@ -140,7 +165,8 @@ chrome.runtime.onConnect.addListener((port) => {
                 streamId: message.streamId,
                 error,
               });
-            }
+            },
+            abortController.signal
           );
         } catch (error) {
           console.error('Error in stream handler:', error);
@@ -149,12 +175,18 @@ chrome.runtime.onConnect.addListener((port) => {
             streamId: message.streamId,
             error: error instanceof Error ? error.message : 'Unknown streaming error',
           });
+        } finally {
+          activeStreams.delete(streamId);
+          portStreamIds.delete(streamId);
         }
       }
     });
 
     port.onDisconnect.addListener(() => {
       console.log('Stream port disconnected');
+
+      // Nobody is listening anymore, stop generating
+      portStreamIds.forEach((streamId) => activeStreams.get(streamId)?.abort());
     });
   }
 });
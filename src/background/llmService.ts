@@ -1,20 +1,170 @@
-import type {
-  LLMRequest,
-  LLMResponse,
-  OpenAIRequest,
+import {
+  LLMProvider,
+  type ChatMessage,
+  type ImageAttachment,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMStreamRequest,
+  type LLMSettings,
+  type OpenAIMessage,
+  type OpenAIRequest,
+  type ToolCallRecord,
 } from '@/shared/types/llm';
+import type { StreamEvent } from '@/shared/types/messages';
+import { DEFAULT_FIRST_TOKEN_TIMEOUT_MS, RESPONSES_API_PROVIDERS } from '@/shared/constants';
 import { mcpService } from './mcpService';
+import {
+  getMaxToolRounds,
+  runToolCall,
+  reportFailedToolCall,
+  getAnsweredToolCallIds,
+} from './toolExecution';
+import { streamAnthropicMessage } from './anthropicService';
+import { streamResponsesMessage } from './responsesService';
+import { fetchWithRetry, APIError } from './fetchWithRetry';
+import { createResponseCollector } from '@/shared/utils/responseCollector';
+import { PromptToolCallParser, type ToolCallParseError, type ToolCallParseResult } from './promptToolParser';
+import { createToolRegistry, type ToolRegistry } from './toolRegistry';
+import { resolveToolApproval } from './toolApproval';
+import { getToolResultImages, getToolResultText, withToolResultImages } from '@/shared/utils/toolResults';
+import { supportsImageInput } from '@/shared/utils/modelFamilies';
+import { getAzureChatEndpoint } from '@/shared/utils/azure';
+import { getFallbackSettings } from '@/shared/utils/profiles';
+
+/**
+ * Build request headers for OpenAI-style providers
+ */
+function buildRequestHeaders(settings: LLMSettings): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (settings.provider === LLMProvider.AZURE_OPENAI) {
+    headers['api-key'] = settings.apiKey;
+  } else if (settings.apiKey || settings.provider !== LLMProvider.OLLAMA) {
+    // Local Ollama servers usually run without auth
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  // Add OpenRouter specific headers
+  if (settings.provider === LLMProvider.OPENROUTER) {
+    headers['HTTP-Referer'] = chrome.runtime.getURL('');
+    headers['X-Title'] = 'Web Content Chat Extension';
+  }
+
+  return headers;
+}
+
+/**
+ * URL chat requests are sent to
+ * Azure addresses each deployment (the model setting) by URL
+ */
+function getChatEndpoint(settings: LLMSettings): string {
+  if (settings.provider === LLMProvider.AZURE_OPENAI) {
+    if (!settings.azure?.resourceName) {
+      throw new Error('Azure OpenAI resource name is not configured');
+    }
+    return getAzureChatEndpoint(settings.azure, settings.model);
+  }
+  return settings.apiEndpoint;
+}
+
+/**
+ * Request-side reasoning effort, in the shape each provider expects
+ */
+function buildReasoningParams(settings: LLMSettings): Partial<OpenAIRequest> {
+  const effort = settings.reasoningEffort;
+  if (!effort) {
+    return {};
+  }
+
+  switch (settings.provider) {
+    case LLMProvider.OPENROUTER:
+      return { reasoning: { effort } };
+    case LLMProvider.OLLAMA:
+      return { think: true };
+    default:
+      return { reasoning_effort: effort };
+  }
+}
+
+/**
+ * Sampling parameters from settings (or the session's preset)
+ * Unset values are left out so the server default applies
+ */
+function buildGenerationParams(settings: LLMSettings): Partial<OpenAIRequest> {
+  const params = settings.generation;
+  if (!params) {
+    return {};
+  }
+
+  const stop = params.stop?.length ? params.stop : undefined;
+
+  // Ollama takes sampling parameters under `options`
+  if (settings.provider === LLMProvider.OLLAMA) {
+    return {
+      options: {
+        temperature: params.temperature,
+        top_p: params.topP,
+        num_predict: params.maxTokens,
+        stop,
+        seed: params.seed,
+        presence_penalty: params.presencePenalty,
+        frequency_penalty: params.frequencyPenalty,
+      },
+    };
+  }
+
+  return {
+    temperature: params.temperature,
+    top_p: params.topP,
+    max_tokens: params.maxTokens,
+    stop,
+    seed: params.seed,
+    presence_penalty: params.presencePenalty,
+    frequency_penalty: params.frequencyPenalty,
+  };
+}
+
+/**
+ * Ask OpenAI-style providers to append token usage to the stream
+ * Ollama always reports counts on its final object
+ */
+function buildUsageParams(settings: LLMSettings): Partial<OpenAIRequest> {
+  return settings.provider === LLMProvider.OLLAMA ? {} : { stream_options: { include_usage: true } };
+}
+
+/**
+ * Build a streaming chat completions request
+ * The initial request and every tool follow-up go through here so they stay consistent
+ */
+function buildOpenAIRequest(
+  settings: LLMSettings,
+  messages: any[],
+  tools: any[] = [],
+  toolChoice: 'auto' | 'none' = 'auto'
+): OpenAIRequest & { tools?: any[]; tool_choice?: string } {
+  return {
+    model: settings.model,
+    messages,
+    stream: true,
+    ...buildGenerationParams(settings),
+    ...buildUsageParams(settings),
+    ...buildReasoningParams(settings),
+    ...(tools.length > 0 && { tools, tool_choice: toolChoice }),
+  };
+}
 
 /**
  * Format MCP tools for OpenAI tool calling format
  */
-function formatMCPToolsForOpenAI() {
+function formatMCPToolsForOpenAI(toolRegistry: ToolRegistry) {
   const mcpTools = mcpService.getAllTools();
 
   return mcpTools.map((tool) => ({
     type: 'function',
     function: {
-      name: `mcp_${tool.serverId}_${tool.name}`,
+      name: toolRegistry.getAlias(tool.serverId, tool.name),
       description: tool.description,
       parameters: tool.inputSchema,
     },
@@ -94,176 +244,398 @@ ${toolDescriptions}
 }
 
 /**
- * Parse tool calls from text response using regex (for prompt-based tool calling)
+ * Format a successful tool result for the prompt-mode follow-up message
  */
-function parseToolCallsFromText(text: string): Array<{
-  serverId: string;
-  toolName: string;
-  arguments: any;
-}> {
-  const toolCalls: Array<{
-    serverId: string;
-    toolName: string;
-    arguments: any;
-  }> = [];
-
-  // Match XML format: <tool_call>...</tool_call>
-  const toolCallRegex = /<tool_call>([\s\S]*?)<\/tool_call>/g;
-  let match;
-
-  while ((match = toolCallRegex.exec(text)) !== null) {
-    const content = match[1];
-
-    // Extract server_id, tool_name, and arguments
-    const serverIdMatch = /<server_id>(.*?)<\/server_id>/.exec(content);
-    const toolNameMatch = /<tool_name>(.*?)<\/tool_name>/.exec(content);
-    const argsMatch = /<arguments>([\s\S]*?)<\/arguments>/.exec(content);
-
-    if (serverIdMatch && toolNameMatch && argsMatch) {
-      try {
-        const args = JSON.parse(argsMatch[1].trim());
-        toolCalls.push({
-          serverId: serverIdMatch[1].trim(),
-          toolName: toolNameMatch[1].trim(),
-          arguments: args,
-        });
-      } catch (error) {
-        console.error('Error parsing tool call arguments:', error);
-      }
-    }
+function formatToolResultForPrompt(toolName: string, content: string): string {
+  return `**Tool Result for ${toolName}:**\n\`\`\`json\n${content}\n\`\`\`\n\n`;
+}
+
+/**
+ * Format a failed tool call for the prompt-mode follow-up message
+ */
+function formatToolErrorForPrompt(toolName: string, error: string): string {
+  return `**Tool ${toolName} failed:** ${error}\n\n`;
+}
+
+/**
+ * Format an unreadable tool call for the prompt-mode follow-up message,
+ * so the model can correct it
+ */
+function formatToolParseErrorForPrompt(error: ToolCallParseError): string {
+  const details = { error: 'invalid_tool_call', message: error.message, received: error.raw };
+  return `**Tool call could not be parsed:**\n\`\`\`json\n${JSON.stringify(details, null, 2)}\n\`\`\`\nSend the call again in the <tool_call> format with a valid JSON object in <arguments>.\n\n`;
+}
+
+/**
+ * Render a stored tool call back into the XML format prompt mode asks for
+ */
+function formatToolCallAsXML(call: ToolCallRecord): string {
+  return `<tool_call>
+<server_id>${call.serverId || ''}</server_id>
+<tool_name>${call.toolName}</tool_name>
+<arguments>${JSON.stringify(call.arguments)}</arguments>
+</tool_call>`;
+}
+
+/**
+ * A message with images: vision content parts, or raw base64 images for Ollama
+ */
+function toImageMessage(role: string, text: string, images: ImageAttachment[], isOllama: boolean): OpenAIMessage {
+  if (isOllama) {
+    return {
+      role,
+      content: text,
+      images: images.map((img) => img.data.replace(/^data:[^;]+;base64,/, '')),
+    };
+  }
+
+  const contentParts: Exclude<OpenAIMessage['content'], string | null> = [];
+  if (text) {
+    contentParts.push({ type: 'text', text });
   }
+  images.forEach((img) => {
+    contentParts.push({ type: 'image_url', image_url: { url: img.data, detail: 'auto' } });
+  });
 
-  return toolCalls;
+  return { role, content: contentParts };
 }
 
 /**
- * Execute prompt-based tool calls (parsed from text)
+ * Images returned by a round of tool calls, as a user message after the results
+ * Tool messages can only carry text, so the model sees the images this way
  */
-async function executePromptBasedToolCalls(
-  toolCalls: Array<{ serverId: string; toolName: string; arguments: any }>,
-  onChunk: (chunk: string) => void
-): Promise<string> {
-  if (toolCalls.length === 0) {
-    return '';
+function toToolImagesMessage(images: ImageAttachment[], isOllama: boolean): OpenAIMessage {
+  return toImageMessage('user', 'Images returned by the tools above:', images, isOllama);
+}
+
+/**
+ * Convert chat messages into OpenAI-style messages
+ * Stored tool calls and `tool` results are replayed natively (tool_calls /
+ * role 'tool') or, in prompt mode, as XML tool calls and a user message with
+ * the results, matching what the model saw when it made the calls
+ */
+function toOpenAIMessages(
+  messages: ChatMessage[],
+  options: {
+    toolCallingMode: 'native' | 'prompt';
+    isOllama: boolean;
+    toolsPromptText: string;
+    toolRegistry: ToolRegistry;
   }
+): OpenAIMessage[] {
+  const { toolCallingMode, isOllama, toolsPromptText, toolRegistry } = options;
+  const answeredToolCallIds = getAnsweredToolCallIds(messages);
+  const toolCallsById = new Map<string, ToolCallRecord>();
+  const openAIMessages: OpenAIMessage[] = [];
+  let promptResultsMessage: OpenAIMessage | null = null; // Prompt mode: user message collecting the current round's results
+  let toolImages: ImageAttachment[] = []; // Images from the current round's results, sent after them
+
+  const flushToolImages = () => {
+    if (toolImages.length > 0) {
+      openAIMessages.push(toToolImagesMessage(toolImages, isOllama));
+      toolImages = [];
+    }
+  };
 
-  // Use markdown-friendly format instead of HTML
-  const openingTag = '\n\n---\n**🔧 Using tools**\n\n';
-  onChunk(openingTag);
-  let toolResultsText = openingTag;
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      toolImages.push(...(msg.images || []));
 
-  for (const toolCall of toolCalls) {
-    try {
-      console.log(`[Tool] Calling ${toolCall.toolName} with args:`, toolCall.arguments);
+      if (toolCallingMode === 'native') {
+        openAIMessages.push({
+          role: 'tool',
+          tool_call_id: msg.toolCallId,
+          content: msg.content,
+        });
+        continue;
+      }
 
-      const result = await mcpService.callTool({
-        serverId: toolCall.serverId,
-        toolName: toolCall.toolName,
-        arguments: toolCall.arguments,
-      });
+      const call = toolCallsById.get(msg.toolCallId || '');
+      const toolName = call?.toolName || 'tool';
+      const resultText = call?.status === 'error'
+        ? formatToolErrorForPrompt(toolName, call.error || msg.content)
+        : formatToolResultForPrompt(toolName, msg.content);
 
-      if (result.success) {
-        onChunk(`✓ ${toolCall.toolName}\n`);
-        toolResultsText += `✓ ${toolCall.toolName}\n`;
+      // Results for one round go back together in a single user message
+      if (promptResultsMessage) {
+        promptResultsMessage.content += resultText;
+      } else {
+        promptResultsMessage = { role: 'user', content: resultText };
+        openAIMessages.push(promptResultsMessage);
+      }
+      continue;
+    }
+
+    flushToolImages();
+    promptResultsMessage = null;
 
-        // Format result as text for the next prompt
-        toolResultsText += `\n**Tool Result for ${toolCall.toolName}:**\n\`\`\`json\n${JSON.stringify(result.content, null, 2)}\n\`\`\`\n\n`;
+    const answeredToolCalls = (msg.toolCalls || []).filter((call) => answeredToolCallIds.has(call.id));
+    if (msg.role === 'assistant' && answeredToolCalls.length > 0) {
+      answeredToolCalls.forEach((call) => toolCallsById.set(call.id, call));
+
+      if (toolCallingMode === 'native') {
+        openAIMessages.push({
+          role: 'assistant',
+          content: msg.content || null,
+          tool_calls: answeredToolCalls.map((call) => ({
+            id: call.id,
+            type: 'function',
+            function: {
+              name: toolRegistry.getAlias(call.serverId, call.toolName),
+              // Ollama expects arguments back as an object, OpenAI as a JSON string
+              arguments: isOllama ? call.arguments : JSON.stringify(call.arguments),
+            },
+          })),
+        });
       } else {
-        onChunk(`✗ ${toolCall.toolName}: ${result.error}\n`);
-        toolResultsText += `✗ ${toolCall.toolName}: ${result.error}\n\n`;
+        openAIMessages.push({
+          role: 'assistant',
+          content: [msg.content, ...answeredToolCalls.map(formatToolCallAsXML)].filter(Boolean).join('\n\n'),
+        });
       }
-    } catch (error) {
-      console.error(`Error executing tool ${toolCall.toolName}:`, error);
-      onChunk(`✗ ${toolCall.toolName}: ${error}\n`);
-      toolResultsText += `✗ ${toolCall.toolName}: ${error}\n\n`;
+      continue;
     }
+
+    // Inject tool descriptions into ALL system prompts for prompt-based mode
+    // This ensures tools are available throughout the conversation
+    if (toolCallingMode === 'prompt' && msg.role === 'system' && toolsPromptText) {
+      openAIMessages.push({
+        role: msg.role,
+        content: msg.content + toolsPromptText,
+      });
+      continue;
+    }
+
+    if (msg.images && msg.images.length > 0) {
+      openAIMessages.push(toImageMessage(msg.role, msg.content, msg.images, isOllama));
+      continue;
+    }
+
+    // Regular text message
+    openAIMessages.push({
+      role: msg.role,
+      content: msg.content,
+    });
   }
 
-  const closingTag = '---\n\n';
-  onChunk(closingTag);
-  toolResultsText += closingTag;
+  flushToolImages();
 
-  return toolResultsText;
+  return openAIMessages;
+}
+
+/**
+ * Execute prompt-based tool calls (parsed from text)
+ * Returns the tool results formatted as text for the follow-up prompt, and
+ * any images they returned
+ */
+async function executePromptBasedToolCalls(
+  parsed: ToolCallParseResult,
+  round: number,
+  streamId: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; images: ImageAttachment[] }> {
+  let toolResultsText = '';
+  const images: ImageAttachment[] = [];
+
+  // Unreadable calls show as failed and go back to the model to fix
+  parsed.errors.forEach((error, i) => {
+    reportFailedToolCall(
+      { id: `prompt_${Date.now()}_invalid_${i}`, round, toolName: error.toolName || 'unknown', arguments: {} },
+      error.message,
+      onEvent
+    );
+  });
+  const errors = [...parsed.errors];
+
+  for (const [i, toolCall] of parsed.calls.entries()) {
+    // Stop before starting the next tool if the user cancelled
+    signal?.throwIfAborted();
+
+    const id = `prompt_${Date.now()}_${i}`;
+    const serverId = toolCall.serverId || resolveServerId(toolCall.toolName);
+
+    if (!serverId) {
+      reportFailedToolCall({ id, round, toolName: toolCall.toolName, arguments: toolCall.arguments }, 'Unknown tool', onEvent);
+      errors.push({
+        message: `Unknown tool "${toolCall.toolName}"; check <tool_name> and <server_id> against the tool directory`,
+        raw: formatToolCallAsXML({ id, ...toolCall, status: 'error' }),
+        toolName: toolCall.toolName,
+      });
+      continue;
+    }
+
+    const result = await runToolCall({
+      id,
+      round,
+      serverId,
+      toolName: toolCall.toolName,
+      arguments: toolCall.arguments,
+    }, streamId, onEvent, signal);
+
+    if (result.success) {
+      toolResultsText += formatToolResultForPrompt(toolCall.toolName, getToolResultText(result.content));
+      images.push(...getToolResultImages(result.content));
+    } else {
+      toolResultsText += formatToolErrorForPrompt(toolCall.toolName, result.error || 'Unknown error');
+    }
+  }
+
+  toolResultsText += errors.map(formatToolParseErrorForPrompt).join('');
+
+  return { text: toolResultsText, images };
+}
+
+/**
+ * Find the server of a tool called without a server ID, if only one server has it
+ */
+function resolveServerId(toolName: string): string | undefined {
+  const matches = mcpService.getAllTools().filter((tool) => tool.name === toolName);
+  return matches.length === 1 ? matches[0].serverId : undefined;
 }
 
 /**
  * Execute native API tool calls (from OpenAI function calling)
+ * Images in the results follow the tool messages in a user message, if
+ * sendImages is set (the model accepts images)
  */
 async function executeToolCalls(
   toolCalls: any[],
-  onChunk: (chunk: string) => void
+  round: number,
+  toolRegistry: ToolRegistry,
+  isOllama: boolean,
+  sendImages: boolean,
+  streamId: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
 ): Promise<any[]> {
   const toolResults: any[] = [];
-
-  // Show a subtle, inline indicator for tool execution
-  onChunk('\n\n---\n**🔧 Using tools**\n\n');
+  const images: ImageAttachment[] = [];
 
   for (const toolCall of toolCalls) {
-    const functionName = toolCall.function.name;
+    // Stop before starting the next tool if the user cancelled
+    signal?.throwIfAborted();
 
-    // Parse MCP tool call: mcp_{serverId}_{toolName}
-    if (functionName.startsWith('mcp_')) {
-      const parts = functionName.split('_');
-      if (parts.length >= 3) {
-        const serverId = parts[1];
-        const toolName = parts.slice(2).join('_');
+    const functionName = toolCall.function.name;
 
-        try {
-          const args = JSON.parse(toolCall.function.arguments);
+    const target = toolRegistry.resolve(functionName);
+    if (!target) {
+      reportFailedToolCall(
+        { id: toolCall.id, round, toolName: functionName, arguments: {} },
+        'Unknown tool',
+        onEvent
+      );
+      toolResults.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: `Error: Unknown tool ${functionName}`,
+      });
+      continue;
+    }
 
-          // Subtle inline logging
-          console.log(`[Tool] Calling ${toolName} with args:`, args);
+    const { serverId, toolName } = target;
 
-          const result = await mcpService.callTool({
-            serverId,
-            toolName,
-            arguments: args,
-          });
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(toolCall.function.arguments || '{}');
+    } catch (error) {
+      console.error(`Error parsing arguments for tool ${functionName}:`, error);
+      reportFailedToolCall(
+        { id: toolCall.id, round, serverId, toolName, arguments: {} },
+        `Invalid arguments: ${error}`,
+        onEvent
+      );
+      toolResults.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: `Error: Invalid arguments: ${error}`,
+      });
+      continue;
+    }
 
-          if (result.success) {
-            // Show minimal success indicator
-            onChunk(`✓ ${toolName}\n`);
+    const result = await runToolCall(
+      { id: toolCall.id, round, serverId, toolName, arguments: args },
+      streamId,
+      onEvent,
+      signal
+    );
+
+    // Format tool result for LLM
+    toolResults.push({
+      role: 'tool',
+      tool_call_id: toolCall.id,
+      content: result.success ? getToolResultText(result.content) : `Error: ${result.error}`,
+    });
 
-            // Format tool result for LLM
-            toolResults.push({
-              role: 'tool',
-              tool_call_id: toolCall.id,
-              content: JSON.stringify(result.content),
-            });
-          } else {
-            onChunk(`✗ ${toolName}: ${result.error}\n`);
-            toolResults.push({
-              role: 'tool',
-              tool_call_id: toolCall.id,
-              content: `Error: ${result.error}`,
-            });
-          }
-        } catch (error) {
-          console.error(`Error executing tool ${functionName}:`, error);
-          onChunk(`✗ ${toolName}: ${error}\n`);
-          toolResults.push({
-            role: 'tool',
-            tool_call_id: toolCall.id,
-            content: `Error: ${error}`,
-          });
-        }
-      }
+    if (result.success && sendImages) {
+      images.push(...getToolResultImages(result.content));
     }
   }
 
-  onChunk('---\n\n');
+  if (images.length > 0) {
+    toolResults.push(toToolImagesMessage(images, isOllama));
+  }
+
   return toolResults;
 }
 
+/**
+ * Stream wire format: OpenAI-style `data:` SSE lines or Ollama's newline-delimited JSON
+ */
+type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Normalize an Ollama /api/chat stream object into an OpenAI-style choice
+ * Ollama sends tool calls complete (arguments as an object) and without ids
+ */
+function normalizeOllamaChunk(data: any, existingToolCalls: number): {
+  delta: any;
+  finish: string | null;
+} {
+  const message = data.message || {};
+  const toolCalls = Array.isArray(message.tool_calls)
+    ? message.tool_calls.map((toolCall: any, i: number) => ({
+        index: existingToolCalls + i,
+        id: `call_${Date.now()}_${existingToolCalls + i}`,
+        type: 'function',
+        function: {
+          name: toolCall.function?.name || '',
+          arguments: JSON.stringify(toolCall.function?.arguments || {}),
+        },
+      }))
+    : undefined;
+
+  let finish: string | null = null;
+  if (data.done) {
+    // Ollama reports 'stop' even when it asked for tools
+    finish = existingToolCalls > 0 || toolCalls?.length ? 'tool_calls' : data.done_reason || 'stop';
+  }
+
+  return {
+    delta: {
+      content: message.content,
+      reasoning: message.thinking,
+      tool_calls: toolCalls,
+    },
+    finish,
+  };
+}
+
 /**
  * Helper function to process streaming response
- * In prompt mode, filters out <tool_call> XML from display
+ * In prompt mode, tool calls are parsed out of the text and hidden from display
  */
 async function processStreamingResponse(
   response: Response,
-  onChunk: (chunk: string) => void,
-  filterToolCallXML: boolean = false
-): Promise<{ toolCalls: any[]; finishReason: string | null; contentBeforeToolCalls: string }> {
+  onEvent: (event: StreamEvent) => void,
+  parsePromptToolCalls: boolean = false,
+  streamFormat: StreamFormat = 'sse'
+): Promise<{
+  toolCalls: any[];
+  finishReason: string | null;
+  contentBeforeToolCalls: string;
+  promptToolCalls: ToolCallParseResult;
+}> {
   if (!response.body) {
     throw new Error('Response body is null');
   }
@@ -274,24 +646,17 @@ async function processStreamingResponse(
   let toolCalls: any[] = [];
   let finishReason: string | null = null;
   let contentBeforeToolCalls = ''; // Capture any thinking/explanation before tool calls
-  let displayBuffer = ''; // Buffer for filtering tool call XML from display
+  const promptToolCallParser = parsePromptToolCalls ? new PromptToolCallParser() : null;
+  const onChunk = (text: string) => onEvent({ type: 'text_delta', text });
 
   while (true) {
     const { done, value } = await reader.read();
 
     if (done) {
-      // Flush any remaining display buffer
-      if (displayBuffer) {
-        if (filterToolCallXML) {
-          // Remove any remaining tool calls before flushing
-          const toolCallRegex = /<tool_call>[\s\S]*?<\/tool_call>/g;
-          const filtered = displayBuffer.replace(toolCallRegex, '');
-          if (filtered.trim()) {
-            onChunk(filtered);
-          }
-        } else {
-          onChunk(displayBuffer);
-        }
+      // Show whatever the parser was still holding back
+      const remaining = promptToolCallParser?.flush();
+      if (remaining?.trim()) {
+        onChunk(remaining);
       }
       break;
     }
@@ -310,386 +675,449 @@ async function processStreamingResponse(
         continue;
       }
 
-      if (trimmedLine.startsWith('data: ')) {
-        const jsonStr = trimmedLine.slice(6); // Remove 'data: ' prefix
+      if (streamFormat === 'ndjson' || trimmedLine.startsWith('data: ')) {
+        // Remove 'data: ' prefix (NDJSON lines are bare JSON objects)
+        const jsonStr = streamFormat === 'ndjson' ? trimmedLine : trimmedLine.slice(6);
 
+        let data: any;
         try {
-          const data = JSON.parse(jsonStr);
-          const delta = data.choices?.[0]?.delta;
-          const finish = data.choices?.[0]?.finish_reason;
+          data = JSON.parse(jsonStr);
+        } catch (e) {
+          console.error('Error parsing stream data:', e, jsonStr);
+          continue;
+        }
 
-          if (finish) {
-            finishReason = finish;
-          }
+        // Ollama reports failures mid-stream as {"error": "..."}
+        if (streamFormat === 'ndjson' && data.error) {
+          throw new Error(`API error: ${data.error}`);
+        }
+
+        const { delta, finish } = streamFormat === 'ndjson'
+          ? normalizeOllamaChunk(data, toolCalls.length)
+          : { delta: data.choices?.[0]?.delta, finish: data.choices?.[0]?.finish_reason };
+
+        if (finish) {
+          finishReason = finish;
+        }
 
-          // Check for tool calls (native mode)
-          if (delta?.tool_calls) {
-            for (const toolCall of delta.tool_calls) {
-              const index = toolCall.index || 0;
-              if (!toolCalls[index]) {
-                toolCalls[index] = {
-                  id: toolCall.id,
-                  type: toolCall.type || 'function',
-                  function: {
-                    name: toolCall.function?.name || '',
-                    arguments: toolCall.function?.arguments || '',
-                  },
-                };
-              } else {
-                // Accumulate function arguments
-                if (toolCall.function?.arguments) {
-                  toolCalls[index].function.arguments += toolCall.function.arguments;
-                }
-                if (toolCall.function?.name) {
-                  toolCalls[index].function.name = toolCall.function.name;
-                }
+        // Usage arrives on the final chunk (OpenAI) or the done object (Ollama)
+        if (data.usage) {
+          onEvent({
+            type: 'usage',
+            usage: {
+              promptTokens: data.usage.prompt_tokens || 0,
+              completionTokens: data.usage.completion_tokens || 0,
+              totalTokens: data.usage.total_tokens || 0,
+            },
+          });
+        } else if (streamFormat === 'ndjson' && data.done) {
+          const promptTokens = data.prompt_eval_count || 0;
+          const completionTokens = data.eval_count || 0;
+          onEvent({
+            type: 'usage',
+            usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+          });
+        }
+
+        // Check for tool calls (native mode)
+        if (delta?.tool_calls) {
+          for (const toolCall of delta.tool_calls) {
+            const index = toolCall.index || 0;
+            if (!toolCalls[index]) {
+              toolCalls[index] = {
+                id: toolCall.id,
+                type: toolCall.type || 'function',
+                function: {
+                  name: toolCall.function?.name || '',
+                  arguments: toolCall.function?.arguments || '',
+                },
+              };
+            } else {
+              // Accumulate function arguments
+              if (toolCall.function?.arguments) {
+                toolCalls[index].function.arguments += toolCall.function.arguments;
+              }
+              if (toolCall.function?.name) {
+                toolCalls[index].function.name = toolCall.function.name;
               }
             }
           }
+        }
 
-          // Extract content from the delta
-          const content = delta?.content;
-
-          if (content) {
-            contentBeforeToolCalls += content;
-
-            if (filterToolCallXML) {
-              // In prompt mode, filter out <tool_call> XML from display
-              displayBuffer += content;
-
-              // Check for complete tool_call blocks
-              const toolCallRegex = /<tool_call>[\s\S]*?<\/tool_call>/g;
-
-              // If we have a closing tag, we can safely filter and output
-              if (displayBuffer.includes('</tool_call>')) {
-                // Remove all complete tool call blocks
-                const filtered = displayBuffer.replace(toolCallRegex, '');
-                if (filtered.trim()) {
-                  onChunk(filtered);
-                }
-                displayBuffer = '';
-              } else if (displayBuffer.includes('<tool_call>')) {
-                // We're in the middle of a tool call, keep buffering
-                // Don't output anything yet
-              } else {
-                // No tool call in progress, safe to output
-                // But keep a small buffer in case <tool_call> is about to start
-                if (displayBuffer.length > 50) {
-                  // Output all but the last 20 chars (safety margin for "<tool_call>")
-                  const safeContent = displayBuffer.slice(0, -20);
-                  onChunk(safeContent);
-                  displayBuffer = displayBuffer.slice(-20);
-                }
-              }
-            } else {
-              // Native mode or no filtering - output directly
-              onChunk(content);
+        // Extract content from the delta
+        // Reasoning models stream their thinking separately from the answer
+        const reasoning = delta?.reasoning ?? delta?.reasoning_content;
+        if (typeof reasoning === 'string' && reasoning) {
+          onEvent({ type: 'reasoning_delta', text: reasoning });
+        }
+
+        const content = delta?.content;
+
+        if (content) {
+          contentBeforeToolCalls += content;
+
+          if (promptToolCallParser) {
+            // In prompt mode, only text that can't be part of a tool call is shown
+            const visible = promptToolCallParser.push(content);
+            if (visible) {
+              onChunk(visible);
             }
+          } else {
+            // Native mode or no filtering - output directly
+            onChunk(content);
           }
-        } catch (e) {
-          console.error('Error parsing SSE data:', e, jsonStr);
         }
       }
     }
   }
 
-  return { toolCalls, finishReason, contentBeforeToolCalls };
+  return {
+    toolCalls,
+    finishReason,
+    contentBeforeToolCalls,
+    promptToolCalls: promptToolCallParser?.getResult() ?? { calls: [], errors: [] },
+  };
 }
 
 /**
- * Stream a chat message from the LLM API
- * Returns a ReadableStream that emits text chunks
+ * Stream a chat message from an OpenAI-style API (OpenAI, OpenRouter, Ollama)
+ * @throws on API or network failure (see streamChatMessage for error reporting)
  */
-export async function streamChatMessage(
-  request: LLMRequest,
-  onChunk: (chunk: string) => void,
-  onComplete: () => void,
-  onError: (error: string) => void
+async function streamOpenAIMessage(
+  request: LLMStreamRequest,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
 ): Promise<void> {
   const { messages, settings } = request;
 
-  try {
-    // Determine tool calling mode (default to 'prompt' for better compatibility)
-    const toolCallingMode = settings.mcp?.toolCallingMode || 'prompt';
+  // Determine tool calling mode (default to 'prompt' for better compatibility)
+  const toolCallingMode = settings.mcp?.toolCallingMode || 'prompt';
 
-    console.log(`[LLM] Tool calling mode: ${toolCallingMode}`);
+  // Ollama's /api/chat streams NDJSON instead of SSE
+  const isOllama = settings.provider === LLMProvider.OLLAMA;
+  const streamFormat = isOllama ? 'ndjson' : 'sse';
 
-    // Get available MCP tools
-    const tools = formatMCPToolsForOpenAI();
-    const toolsPromptText = formatMCPToolsForSystemPrompt();
+  // Text-only models get tool result images as a text placeholder only
+  const sendImages = supportsImageInput(settings);
 
-    console.log('[LLM] Available MCP tools:', tools.length);
+  console.log(`[LLM] Tool calling mode: ${toolCallingMode}`);
 
-    if (tools.length > 0 && toolCallingMode === 'native') {
-      console.log('[LLM] Tool details (native):', JSON.stringify(tools, null, 2));
-    }
+  // Get available MCP tools
+  const toolRegistry = createToolRegistry();
+  const tools = request.disableTools ? [] : formatMCPToolsForOpenAI(toolRegistry);
+  const toolsPromptText = request.disableTools ? '' : formatMCPToolsForSystemPrompt();
 
-    const openAIRequest: OpenAIRequest & { tools?: any[]; tool_choice?: string } = {
-      model: settings.model,
-      messages: messages.map((msg) => {
-        // Inject tool descriptions into ALL system prompts for prompt-based mode
-        // This ensures tools are available throughout the conversation
-        if (toolCallingMode === 'prompt' && msg.role === 'system' && toolsPromptText) {
-          return {
-            role: msg.role,
-            content: msg.content + toolsPromptText,
-          };
-        }
+  console.log('[LLM] Available MCP tools:', tools.length);
 
-        // If message has images, use vision API format with content array
-        if (msg.images && msg.images.length > 0) {
-          const contentParts: Array<{
-            type: 'text' | 'image_url';
-            text?: string;
-            image_url?: { url: string; detail?: 'low' | 'high' | 'auto' };
-          }> = [];
-
-          // Add text content
-          if (msg.content) {
-            contentParts.push({
-              type: 'text',
-              text: msg.content,
-            });
-          }
+  if (tools.length > 0 && toolCallingMode === 'native') {
+    console.log('[LLM] Tool details (native):', JSON.stringify(tools, null, 2));
+  }
 
-          // Add images
-          msg.images.forEach((img) => {
-            contentParts.push({
-              type: 'image_url',
-              image_url: {
-                url: img.data,
-                detail: 'auto',
-              },
-            });
-          });
+  const openAIRequest = buildOpenAIRequest(
+    settings,
+    toOpenAIMessages(messages, { toolCallingMode, isOllama, toolsPromptText, toolRegistry }),
+    // Only include tools parameter in native mode
+    toolCallingMode === 'native' ? tools : []
+  );
+
+  console.log('[LLM] Sending request with tools:', {
+    toolCount: tools.length,
+    toolNames: tools.map((t: any) => t.function.name),
+    model: settings.model,
+  });
+
+  console.log('[LLM] Full request:', JSON.stringify(openAIRequest, null, 2));
+
+  const headers = buildRequestHeaders(settings);
+  const endpoint = getChatEndpoint(settings);
+
+  // Make initial API request
+  let response = await fetchWithRetry(endpoint, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(openAIRequest),
+    signal,
+  }, settings, onEvent);
+
+  // Upper bound on tool execution rounds (shared by both modes)
+  const maxToolRounds = getMaxToolRounds(settings);
+  let lastFinishReason: string | null = null;
+
+  if (toolCallingMode === 'native') {
+    // Native function calling mode with iterative tool execution
+    let conversationMessages: any[] = [...openAIRequest.messages];
+    let round = 0;
+
+    while (true) {
+      const { toolCalls, finishReason, contentBeforeToolCalls } = await processStreamingResponse(response, onEvent, false, streamFormat);
+      lastFinishReason = finishReason;
+
+      // No tool calls requested, this was the final answer
+      if (toolCalls.length === 0 || finishReason !== 'tool_calls') {
+        break;
+      }
 
-          return {
-            role: msg.role,
-            content: contentParts,
-          };
-        }
+      if (round >= maxToolRounds) {
+        console.warn(`[LLM] Tool round limit (${maxToolRounds}) reached, dropping ${toolCalls.length} tool calls`);
+        lastFinishReason = 'tool_round_limit';
+        break;
+      }
 
-        // Regular text message
-        return {
-          role: msg.role,
-          content: msg.content,
-        };
-      }),
-      stream: true, // Enable streaming
-      // Only include tools parameter in native mode
-      ...(toolCallingMode === 'native' && tools.length > 0 && {
-        tools,
-        tool_choice: 'auto' // Allow model to decide when to use tools
-      }),
-    };
+      round++;
+
+      // Execute the tools
+      const toolResults = await executeToolCalls(
+        toolCalls,
+        round,
+        toolRegistry,
+        isOllama,
+        sendImages,
+        request.streamId,
+        onEvent,
+        signal
+      );
+
+      // Build the assistant message with tool calls
+      const assistantMessage = {
+        role: 'assistant',
+        content: contentBeforeToolCalls || null,
+        tool_calls: toolCalls.map((tc: any) => ({
+          id: tc.id,
+          type: tc.type,
+          function: {
+            name: tc.function.name,
+            // Ollama expects arguments back as an object, OpenAI as a JSON string
+            arguments: isOllama ? JSON.parse(tc.function.arguments || '{}') : tc.function.arguments,
+          },
+        })),
+      };
 
-    console.log('[LLM] Sending request with tools:', {
-      toolCount: tools.length,
-      toolNames: tools.map((t: any) => t.function.name),
-      model: settings.model,
-    });
+      conversationMessages = [
+        ...conversationMessages,
+        assistantMessage,
+        ...toolResults,
+      ];
 
-    console.log('[LLM] Full request:', JSON.stringify(openAIRequest, null, 2));
+      // On the last allowed round, ask for an answer instead of more tool calls
+      const isFinalRound = round >= maxToolRounds;
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${settings.apiKey}`,
-    };
+      console.log(`[LLM] Making follow-up request ${round}/${maxToolRounds} with tool results...`);
 
-    // Add OpenRouter specific headers
-    if (settings.provider === 'openrouter') {
-      headers['HTTP-Referer'] = chrome.runtime.getURL('');
-      headers['X-Title'] = 'Web Content Chat Extension';
-    }
+      const followUpRequest = buildOpenAIRequest(
+        settings,
+        conversationMessages,
+        tools,
+        isFinalRound ? 'none' : 'auto'
+      );
 
-    // Make initial API request
-    let response = await fetch(settings.apiEndpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(openAIRequest),
-    });
+      response = await fetchWithRetry(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(followUpRequest),
+        signal,
+      }, settings, onEvent);
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API error: ${response.status} - ${errorText}`);
+      // Continue the loop to check for more tool calls in the response
     }
+  } else {
+    // Prompt-based tool calling mode with iterative tool execution
+    let conversationMessages = [...openAIRequest.messages];
+    let round = 0;
 
-    if (toolCallingMode === 'native') {
-      // Native function calling mode
-      const { toolCalls, finishReason, contentBeforeToolCalls } = await processStreamingResponse(response, onChunk, false);
+    while (true) {
+      // Tool calls are parsed from the text as it streams and hidden from display
+      const { finishReason, contentBeforeToolCalls, promptToolCalls } = await processStreamingResponse(response, onEvent, true, streamFormat);
+      lastFinishReason = finishReason;
 
-      // If there are tool calls, execute them and make another API request
-      if (toolCalls.length > 0 && finishReason === 'tool_calls') {
-        // Execute the tools
-        const toolResults = await executeToolCalls(toolCalls, onChunk);
-
-        // Build the assistant message with tool calls
-        const assistantMessage = {
-          role: 'assistant',
-          content: contentBeforeToolCalls || null,
-          tool_calls: toolCalls.map((tc: any) => ({
-            id: tc.id,
-            type: tc.type,
-            function: {
-              name: tc.function.name,
-              arguments: tc.function.arguments,
-            },
-          })),
-        };
-
-        // Prepare messages for second request
-        const followUpMessages = [
-          ...openAIRequest.messages,
-          assistantMessage,
-          ...toolResults,
-        ];
-
-        console.log('[LLM] Making follow-up request with tool results...');
-
-        const followUpRequest = {
-          model: settings.model,
-          messages: followUpMessages,
-          stream: true,
-          ...(tools.length > 0 && {
-            tools,
-            tool_choice: 'auto',
-          }),
-        };
-
-        response = await fetch(settings.apiEndpoint, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(followUpRequest),
-        });
+      const callCount = promptToolCalls.calls.length + promptToolCalls.errors.length;
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`API error: ${response.status} - ${errorText}`);
-        }
+      console.log(`[LLM] Round ${round}: Parsed ${promptToolCalls.calls.length} tool calls from text (${promptToolCalls.errors.length} unreadable)`);
 
-        // Process the follow-up response
-        await processStreamingResponse(response, onChunk, false);
+      if (callCount === 0) {
+        // No more tool calls, we're done
+        break;
       }
-    } else {
-      // Prompt-based tool calling mode with iterative tool execution
-      let conversationMessages = [...openAIRequest.messages];
-      let maxIterations = 5; // Prevent infinite loops
-      let iteration = 0;
-
-      while (iteration < maxIterations) {
-        iteration++;
-
-        // Filter out <tool_call> XML from display
-        const { contentBeforeToolCalls } = await processStreamingResponse(response, onChunk, true);
-
-        // Parse tool calls from the text response
-        const promptToolCalls = parseToolCallsFromText(contentBeforeToolCalls);
-
-        console.log(`[LLM] Iteration ${iteration}: Parsed ${promptToolCalls.length} tool calls from text`);
 
-        if (promptToolCalls.length === 0) {
-          // No more tool calls, we're done
-          break;
-        }
-
-        // Execute the tools
-        const toolResultsText = await executePromptBasedToolCalls(promptToolCalls, onChunk);
-
-        // Add assistant's response and tool results to conversation
-        conversationMessages = [
-          ...conversationMessages,
-          {
-            role: 'assistant',
-            content: contentBeforeToolCalls, // Keep original response with tool calls for LLM
-          },
-          {
-            role: 'user',
-            content: toolResultsText + (iteration < maxIterations - 1
-              ? '\n\nIf you need more information, use additional tools. Otherwise, provide a natural, human-friendly response based on the tool results above.'
-              : '\n\nPlease provide a natural, human-friendly response based on the tool results above.'),
-          },
-        ];
-
-        console.log(`[LLM] Making follow-up request ${iteration} with tool results (prompt mode)...`);
-
-        const followUpRequest = {
-          model: settings.model,
-          messages: conversationMessages,
-          stream: true,
-        };
+      if (round >= maxToolRounds) {
+        console.warn(`[LLM] Tool round limit (${maxToolRounds}) reached, dropping ${callCount} tool calls`);
+        lastFinishReason = 'tool_round_limit';
+        break;
+      }
 
-        response = await fetch(settings.apiEndpoint, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(followUpRequest),
-        });
+      round++;
 
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`API error: ${response.status} - ${errorText}`);
-        }
+      // Execute the tools
+      const toolResults = await executePromptBasedToolCalls(promptToolCalls, round, request.streamId, onEvent, signal);
 
-        // Continue the loop to check for more tool calls in the response
-      }
+      // Add assistant's response and tool results to conversation
+      conversationMessages = [
+        ...conversationMessages,
+        {
+          role: 'assistant',
+          content: contentBeforeToolCalls, // Keep original response with tool calls for LLM
+        },
+        {
+          role: 'user',
+          content: toolResults.text + (round < maxToolRounds
+            ? '\n\nIf you need more information, use additional tools. Otherwise, provide a natural, human-friendly response based on the tool results above.'
+            : '\n\nPlease provide a natural, human-friendly response based on the tool results above.'),
+        },
+        ...(sendImages && toolResults.images.length > 0 ? [toToolImagesMessage(toolResults.images, isOllama)] : []),
+      ];
+
+      console.log(`[LLM] Making follow-up request ${round}/${maxToolRounds} with tool results (prompt mode)...`);
+
+      const followUpRequest = buildOpenAIRequest(settings, conversationMessages);
+
+      response = await fetchWithRetry(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(followUpRequest),
+        signal,
+      }, settings, onEvent);
+
+      // Continue the loop to check for more tool calls in the response
     }
-
-    onComplete();
-  } catch (error) {
-    console.error('Streaming error:', error);
-    onError(error instanceof Error ? error.message : 'Unknown streaming error');
   }
+
+  onEvent({ type: 'done', finishReason: lastFinishReason });
 }
 
 /**
- * Non-streaming fallback (for compatibility)
+ * Whether a request goes through the Responses API instead of Chat Completions
+ * Fallbacks on other providers inherit the format, so it only applies where supported
  */
-export async function sendChatMessage(request: LLMRequest): Promise<LLMResponse> {
-  const { messages, settings } = request;
+function usesResponsesAPI(settings: LLMSettings): boolean {
+  return settings.apiFormat === 'responses' && RESPONSES_API_PROVIDERS.includes(settings.provider);
+}
 
-  try {
-    const openAIRequest: OpenAIRequest = {
-      model: settings.model,
-      messages: messages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      })),
-    };
+/**
+ * Auth failures would fail the same way on a fallback sharing the key, and
+ * usually mean the settings need fixing, so they are reported right away
+ */
+function isAuthError(error: unknown): boolean {
+  return error instanceof APIError && (error.status === 401 || error.status === 403);
+}
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${settings.apiKey}`,
+/**
+ * Stream a chat message from the LLM API
+ * Emits typed stream events, ending with a `done` event on success
+ * If a model fails (other than on auth) or sends nothing within the first-token
+ * timeout, the next configured fallback model is tried, as long as nothing has
+ * been streamed yet. A `model_fallback` event tells the client which model took over.
+ * Aborting `signal` cancels the in-flight fetch and pending tool calls; neither
+ * `done` nor onError fires in that case since the caller asked for it
+ */
+export async function streamChatMessage(
+  request: LLMStreamRequest,
+  onEvent: (event: StreamEvent) => void,
+  onError: (error: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { settings } = request;
+  const candidates = [settings, ...getFallbackSettings(settings)];
+  const firstTokenTimeoutMs = settings.firstTokenTimeoutMs ?? DEFAULT_FIRST_TOKEN_TIMEOUT_MS;
+
+  for (const [i, candidate] of candidates.entries()) {
+    const isLastCandidate = i === candidates.length - 1;
+
+    // Per-attempt controller so a first-token timeout only cancels this model
+    const attemptController = new AbortController();
+    const abortAttempt = () => attemptController.abort();
+    signal?.addEventListener('abort', abortAttempt);
+
+    let hasOutput = false;
+    let timedOut = false;
+    const timer = isLastCandidate
+      ? undefined
+      : setTimeout(() => {
+          timedOut = true;
+          attemptController.abort();
+        }, firstTokenTimeoutMs);
+
+    const onAttemptEvent = (event: StreamEvent) => {
+      // Retry notices aren't output; everything else means the model is answering
+      if (!hasOutput && event.type !== 'retrying') {
+        hasOutput = true;
+        clearTimeout(timer);
+      }
+      onEvent(event);
     };
 
-    if (settings.provider === 'openrouter') {
-      headers['HTTP-Referer'] = chrome.runtime.getURL('');
-      headers['X-Title'] = 'Web Content Chat Extension';
-    }
+    try {
+      // Images from earlier tool results only go to a model that accepts images,
+      // which a fallback may not even if the primary does
+      const attemptRequest = {
+        ...request,
+        messages: supportsImageInput(candidate) ? request.messages : withToolResultImages(request.messages, false),
+        settings: candidate,
+      };
+
+      // Anthropic speaks its own Messages API
+      if (candidate.provider === LLMProvider.ANTHROPIC) {
+        await streamAnthropicMessage(attemptRequest, onAttemptEvent, attemptController.signal);
+      } else if (usesResponsesAPI(candidate)) {
+        await streamResponsesMessage(attemptRequest, onAttemptEvent, attemptController.signal);
+      } else {
+        await streamOpenAIMessage(attemptRequest, onAttemptEvent, attemptController.signal);
+      }
+      return;
+    } catch (error) {
+      if (signal?.aborted) {
+        console.log('[LLM] Stream aborted by user');
+        return;
+      }
 
-    const response = await fetch(settings.apiEndpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(openAIRequest),
-    });
+      const message = timedOut
+        ? `No response from ${candidate.model} within ${Math.round(firstTokenTimeoutMs / 1000)}s`
+        : error instanceof Error ? error.message : 'Unknown streaming error';
+
+      if (isLastCandidate || hasOutput || isAuthError(error)) {
+        console.error('Streaming error:', error);
+        onError(message);
+        return;
+      }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API error: ${response.status} - ${errorText}`);
+      const next = candidates[i + 1];
+      console.warn(`[LLM] ${candidate.model} failed (${message}), falling back to ${next.model}`);
+      onEvent({
+        type: 'model_fallback',
+        provider: next.provider,
+        model: next.model,
+        reason: `${candidate.model}: ${message}`,
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', abortAttempt);
     }
+  }
+}
 
-    const data = await response.json();
+// Numbers the non-streaming requests, which have no stream ID from the side panel
+let sentRequestCount = 0;
 
-    if (!data.choices || data.choices.length === 0) {
-      throw new Error('No response from API');
+/**
+ * Send a chat message and wait for the complete response
+ * Runs the same pipeline as streamChatMessage (images, MCP tools, tool calling
+ * mode, retries and fallbacks) and aggregates its events into one LLMResponse,
+ * including the transcript of tool calls and results
+ */
+export async function sendChatMessage(request: LLMRequest, signal?: AbortSignal): Promise<LLMResponse> {
+  const collector = createResponseCollector(request.settings.model);
+  const streamId = `request-${Date.now()}-${++sentRequestCount}`;
+  let streamError: string | undefined;
+
+  // Nobody can answer approval requests here, so tools that ask are denied
+  const onEvent = (event: StreamEvent) => {
+    collector.onEvent(event);
+    if (event.type === 'tool_approval_requested') {
+      resolveToolApproval(event.streamId, event.toolCallId, 'deny');
     }
+  };
 
-    return {
-      content: data.choices[0].message.content,
-    };
-  } catch (error) {
-    console.error('API error:', error);
-    return {
-      content: '',
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-  }
+  await streamChatMessage({ ...request, streamId }, onEvent, (error) => {
+    streamError = error;
+  }, signal);
+
+  return collector.getResponse(streamError);
 }
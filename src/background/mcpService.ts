@@ -6,15 +6,25 @@
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { CreateMessageRequestSchema, ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
 import type {
   MCPServer,
   MCPServerState,
   MCPTool,
   MCPResource,
+  MCPPrompt,
+  MCPPromptMessage,
+  MCPSamplingRequest,
+  MCPSamplingResult,
   MCPToolCall,
   MCPToolResult,
 } from '@/shared/types/mcp';
 
+/**
+ * Answers a server's sampling request with a completion from the user's model
+ */
+export type SamplingHandler = (request: MCPSamplingRequest, signal: AbortSignal) => Promise<MCPSamplingResult>;
+
 /**
  * Manages MCP server connections and tool invocations
  */
@@ -22,6 +32,15 @@ class MCPService {
   private clients: Map<string, Client> = new Map();
   private serverStates: Map<string, MCPServerState> = new Map();
   private serverConfigs: Map<string, MCPServer> = new Map(); // Store server configs for timeout lookup
+  private samplingHandler: SamplingHandler | null = null;
+
+  /**
+   * Set how sampling requests from servers are answered
+   * Kept outside this service since answering needs the LLM services, which use this one
+   */
+  setSamplingHandler(handler: SamplingHandler): void {
+    this.samplingHandler = handler;
+  }
 
   /**
    * Connect to an MCP server
@@ -85,6 +104,7 @@ class MCPService {
         status: 'error',
         tools: [],
         resources: [],
+        prompts: [],
         error: errorMessage,
       };
 
@@ -126,18 +146,49 @@ class MCPService {
         version: '1.0.0',
       },
       {
-        capabilities: {},
+        capabilities: {
+          sampling: {}, // Servers may ask for completions from the user's model
+        },
       }
     );
 
+    client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => {
+      if (!this.samplingHandler) {
+        throw new McpError(ErrorCode.MethodNotFound, 'Sampling is not available');
+      }
+
+      const { params } = request;
+      console.log(`[MCP] Sampling request from ${server.name}:`, params);
+
+      const result = await this.samplingHandler({
+        serverId: server.id,
+        serverName: server.name,
+        messages: params.messages as MCPPromptMessage[],
+        systemPrompt: params.systemPrompt,
+        maxTokens: params.maxTokens,
+        temperature: params.temperature,
+        stopSequences: params.stopSequences,
+        modelHints: params.modelPreferences?.hints
+          ?.map((hint) => hint.name)
+          .filter((name): name is string => !!name),
+      }, extra.signal);
+
+      return {
+        role: 'assistant' as const,
+        content: { type: 'text' as const, text: result.text },
+        model: result.model,
+        stopReason: result.stopReason,
+      };
+    });
+
     // Connect client to transport (let errors propagate for fallback)
     await client.connect(transport);
 
     // Store client
     this.clients.set(server.id, client);
 
-    // List available tools and resources
-    const [toolsResult, resourcesResult] = await Promise.all([
+    // List available tools, resources and prompts
+    const [toolsResult, resourcesResult, promptsResult] = await Promise.all([
       client.listTools().catch((err) => {
         console.error(`[MCP] Error listing tools from ${server.name}:`, err);
         return { tools: [] };
@@ -146,6 +197,10 @@ class MCPService {
         console.error(`[MCP] Error listing resources from ${server.name}:`, err);
         return { resources: [] };
       }),
+      client.listPrompts().catch((err) => {
+        console.error(`[MCP] Error listing prompts from ${server.name}:`, err);
+        return { prompts: [] };
+      }),
     ]);
 
     console.log(`[MCP] Tools result from ${server.name}:`, toolsResult);
@@ -164,12 +219,19 @@ class MCPService {
       mimeType: resource.mimeType,
     }));
 
+    const prompts: MCPPrompt[] = promptsResult.prompts.map((prompt: any) => ({
+      name: prompt.name,
+      description: prompt.description,
+      arguments: prompt.arguments,
+    }));
+
     // Update server state
     const state: MCPServerState = {
       serverId: server.id,
       status: 'connected',
       tools,
       resources,
+      prompts,
       lastConnected: Date.now(),
     };
 
@@ -201,8 +263,9 @@ class MCPService {
 
   /**
    * Call a tool on an MCP server
+   * Aborting `signal` also cancels the request on the server side
    */
-  async callTool(toolCall: MCPToolCall): Promise<MCPToolResult> {
+  async callTool(toolCall: MCPToolCall, signal?: AbortSignal): Promise<MCPToolResult> {
     const client = this.clients.get(toolCall.serverId);
     if (!client) {
       return {
@@ -227,10 +290,14 @@ class MCPService {
 
       // Race between tool call and timeout
       const result = await Promise.race([
-        client.callTool({
-          name: toolCall.toolName,
-          arguments: toolCall.arguments,
-        }),
+        client.callTool(
+          {
+            name: toolCall.toolName,
+            arguments: toolCall.arguments,
+          },
+          undefined,
+          { signal }
+        ),
         timeoutPromise,
       ]);
 
@@ -251,6 +318,35 @@ class MCPService {
     }
   }
 
+  /**
+   * Fill in a prompt template on an MCP server
+   * The result's content is the prompt's messages
+   */
+  async getPrompt(serverId: string, name: string, args: Record<string, string>): Promise<MCPToolResult> {
+    const client = this.clients.get(serverId);
+    if (!client) {
+      return {
+        success: false,
+        error: `Server ${serverId} not connected`,
+      };
+    }
+
+    try {
+      const result = await client.getPrompt({ name, arguments: args });
+
+      return {
+        success: true,
+        content: result.messages,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
   /**
    * Read a resource from an MCP server
    */
@@ -322,6 +418,7 @@ class MCPService {
       status: 'disconnected',
       tools: [],
       resources: [],
+      prompts: [],
     };
 
     this.serverStates.set(serverId, { ...current, ...updates });
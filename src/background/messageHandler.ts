@@ -8,6 +8,8 @@ import type {
   MCPDisconnectServerMessage,
   MCPGetServerStateMessage,
   MCPCallToolMessage,
+  MCPReadResourceMessage,
+  MCPGetPromptMessage,
 } from '@/shared/types/messages';
 import { sendChatMessage } from './llmService';
 import { getSettings, saveSettings } from '@/shared/utils/storage';
@@ -52,6 +54,12 @@ export async function handleMessage(
       case MessageType.MCP_CALL_TOOL:
         return await handleMCPCallTool(message as MCPCallToolMessage);
 
+      case MessageType.MCP_READ_RESOURCE:
+        return await handleMCPReadResource(message as MCPReadResourceMessage);
+
+      case MessageType.MCP_GET_PROMPT:
+        return await handleMCPGetPrompt(message as MCPGetPromptMessage);
+
       default:
         throw new Error(`Unknown message type: ${(message as any).type}`);
     }
@@ -109,12 +117,12 @@ async function handleChatMessage(message: SendChatMessage) {
     const response = await sendChatMessage({
       messages: message.messages,
       settings: message.settings,
+      disableTools: message.disableTools,
     });
 
     return {
       type: MessageType.CHAT_RESPONSE,
-      content: response.content,
-      error: response.error,
+      ...response,
     };
   } catch (error) {
     console.error('Error sending chat message:', error);
@@ -195,6 +203,28 @@ async function handleMCPCallTool(message: MCPCallToolMessage) {
   };
 }
 
+/**
+ * Read an MCP resource's contents
+ */
+async function handleMCPReadResource(message: MCPReadResourceMessage) {
+  const result = await mcpService.readResource(message.serverId, message.uri);
+  return {
+    type: MessageType.MCP_RESOURCE_CONTENTS,
+    result,
+  };
+}
+
+/**
+ * Fill in an MCP prompt template
+ */
+async function handleMCPGetPrompt(message: MCPGetPromptMessage) {
+  const result = await mcpService.getPrompt(message.serverId, message.name, message.arguments);
+  return {
+    type: MessageType.MCP_PROMPT_MESSAGES,
+    result,
+  };
+}
+
 /**
  * Reconnect to MCP servers based on settings
  */
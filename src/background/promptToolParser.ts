@@ -0,0 +1,456 @@
+/**
+ * Incremental parser for tool calls written into the response text (prompt mode)
+ * Accepts <tool_call> XML, the same inside ```xml fences, JSON-style calls
+ * (fenced or on their own line) and common JSON mistakes in the arguments
+ */
+
+/**
+ * A tool call read from the response text
+ * serverId is empty when the model left it out
+ */
+export interface ParsedToolCall {
+  serverId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * Something that looked like a tool call but couldn't be read
+ */
+export interface ToolCallParseError {
+  message: string;
+  raw: string; // The text as the model wrote it
+  toolName?: string;
+}
+
+export interface ToolCallParseResult {
+  calls: ParsedToolCall[];
+  errors: ToolCallParseError[];
+}
+
+type BlockKind = 'xml' | 'fence' | 'json';
+
+const XML_OPEN = '<tool_call>';
+const XML_CLOSE = '</tool_call>';
+const FENCE = '```';
+
+// Fence info strings that may hold a tool call; other fences are ordinary code
+const TOOL_FENCE_LANGUAGES = ['', 'xml', 'json', 'tool_call', 'tool_code'];
+
+// First keys that make a JSON object on its own line worth holding back
+const TOOL_CALL_KEYS = ['tool_call', 'function', 'tool_name', 'toolName', 'tool', 'name', 'server_id', 'serverId'];
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+
+/**
+ * Extract the text of an XML-style tag, if present
+ */
+function readTag(text: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(text);
+  return match ? match[1].trim() : undefined;
+}
+
+/**
+ * Remove CDATA or code fence wrapping around a value
+ */
+function unwrapValue(text: string): string {
+  return text
+    .trim()
+    .replace(/^<!\[CDATA\[([\s\S]*)\]\]>$/, '$1')
+    .replace(/^```\w*\s*([\s\S]*?)\s*```$/, '$1')
+    .trim();
+}
+
+/**
+ * Rewrite common JSON mistakes: single-quoted strings, unquoted keys,
+ * trailing commas and Python literals
+ */
+function repairJSON(text: string): string {
+  let out = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quote) {
+      if (ch === '\\') {
+        const next = text[i + 1] ?? '';
+        // \' is not a valid JSON escape
+        out += next === "'" ? "'" : ch + next;
+        i++;
+      } else if (ch === quote) {
+        out += '"';
+        quote = null;
+      } else if (ch === '"') {
+        out += '\\"'; // Only reachable inside a single-quoted string
+      } else if (ch === '\n') {
+        out += '\\n';
+      } else {
+        out += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      quote = ch;
+      out += '"';
+      continue;
+    }
+
+    if (ch === ',' && /^\s*[}\]]/.test(text.slice(i + 1))) {
+      continue;
+    }
+
+    const word = /^[A-Za-z_$][\w$]*/.exec(text.slice(i));
+    if (word) {
+      const token = word[0];
+      const isKey = /^\s*:/.test(text.slice(i + token.length));
+      out += isKey ? `"${token}"` : PYTHON_LITERALS[token] ?? token;
+      i += token.length - 1;
+      continue;
+    }
+
+    out += ch;
+  }
+
+  return out;
+}
+
+/**
+ * Parse JSON, repairing common mistakes when it isn't valid as written
+ * @throws the original parse error when the repaired text is still invalid
+ */
+export function parseLenientJSON(text: string): any {
+  const value = unwrapValue(text);
+
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    try {
+      return JSON.parse(repairJSON(value));
+    } catch {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Read the pieces of a JSON-style tool call
+ * @returns null when the object doesn't look like a tool call
+ */
+function readJSONToolCall(value: any): { serverId: string; toolName: string; args: unknown } | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+
+  // {"tool_call": {...}} and OpenAI-like {"function": {...}}
+  const inner = value.tool_call ?? value.function;
+  if (inner && typeof inner === 'object') {
+    const call = readJSONToolCall(inner);
+    return call && !call.serverId && value.server_id ? { ...call, serverId: String(value.server_id) } : call;
+  }
+
+  const toolName = value.tool_name ?? value.toolName ?? value.tool ?? value.name;
+  const hasArgs = ['arguments', 'args', 'parameters', 'input'].some((key) => key in value);
+
+  if (typeof toolName !== 'string' || !hasArgs) {
+    return null;
+  }
+
+  return {
+    serverId: String(value.server_id ?? value.serverId ?? ''),
+    toolName,
+    args: value.arguments ?? value.args ?? value.parameters ?? value.input,
+  };
+}
+
+/**
+ * Turn raw arguments into an object, parsing them if they came as a string
+ */
+function readArguments(args: unknown): Record<string, any> {
+  const value = typeof args === 'string' ? (args.trim() ? parseLenientJSON(args) : {}) : args ?? {};
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('arguments must be a JSON object');
+  }
+
+  return value;
+}
+
+/**
+ * Incremental tool call parser for one streamed response
+ * Feed text as it arrives; what comes back is safe to show, with tool calls
+ * removed. Text is only held back while it could still be a tool call.
+ */
+export class PromptToolCallParser {
+  private pending = '';
+  private lastChar = '\n'; // Last character consumed, for line-start checks
+  private inPlainFence = false; // Inside an ordinary code block being shown as-is
+  private result: ToolCallParseResult = { calls: [], errors: [] };
+
+  /**
+   * Add streamed text
+   * @returns Text to display
+   */
+  push(text: string): string {
+    this.pending += text;
+    return this.drain(false);
+  }
+
+  /**
+   * End of the response: resolve anything still held back
+   * @returns Remaining text to display
+   */
+  flush(): string {
+    return this.drain(true);
+  }
+
+  getResult(): ToolCallParseResult {
+    return this.result;
+  }
+
+  private drain(final: boolean): string {
+    let output = '';
+
+    while (this.pending) {
+      const start = this.findBlockStart();
+
+      if (!start) {
+        const keep = final ? 0 : this.partialMarkerLength();
+        output += this.consume(this.pending.length - keep);
+        break;
+      }
+
+      output += this.consume(start.index);
+
+      // Closing fence of an ordinary code block
+      if (this.inPlainFence) {
+        this.inPlainFence = false;
+        output += this.consume(FENCE.length);
+        continue;
+      }
+
+      const decision = start.kind === 'xml' ? 'hold' : this.classifyOpening(start.kind);
+      if (decision === 'wait' && !final) break;
+      if (decision === 'text') {
+        // Show the opener and carry on after it
+        if (start.kind === 'fence') {
+          this.inPlainFence = true;
+          output += this.consume(FENCE.length);
+        } else {
+          output += this.consume(1);
+        }
+        continue;
+      }
+
+      const end = this.findBlockEnd(start.kind);
+      if (end === -1 && !final) break;
+
+      const block = this.consume(end === -1 ? this.pending.length : end);
+      output += this.readBlock(block, start.kind, end === -1);
+    }
+
+    return output;
+  }
+
+  /**
+   * Remove and return the first `length` characters of the pending text
+   */
+  private consume(length: number): string {
+    const text = this.pending.slice(0, length);
+    this.pending = this.pending.slice(length);
+    if (text) {
+      this.lastChar = text[text.length - 1];
+    }
+    return text;
+  }
+
+  /**
+   * Earliest place a tool call could start in the pending text
+   */
+  private findBlockStart(): { index: number; kind: BlockKind } | null {
+    const fence = this.pending.indexOf(FENCE);
+    if (this.inPlainFence) {
+      return fence === -1 ? null : { index: fence, kind: 'fence' };
+    }
+
+    const candidates: Array<{ index: number; kind: BlockKind }> = [];
+    const xml = this.pending.indexOf(XML_OPEN);
+    if (xml !== -1) candidates.push({ index: xml, kind: 'xml' });
+    if (fence !== -1) candidates.push({ index: fence, kind: 'fence' });
+
+    // JSON tool calls are only recognized at the start of a line
+    for (let i = this.pending.indexOf('{'); i !== -1; i = this.pending.indexOf('{', i + 1)) {
+      const before = i === 0 ? this.lastChar : this.pending[i - 1];
+      if (before === '\n') {
+        candidates.push({ index: i, kind: 'json' });
+        break;
+      }
+    }
+
+    return candidates.reduce<{ index: number; kind: BlockKind } | null>(
+      (first, candidate) => (!first || candidate.index < first.index ? candidate : first),
+      null
+    );
+  }
+
+  /**
+   * Length of a trailing piece that could be the start of a marker
+   */
+  private partialMarkerLength(): number {
+    const markers = this.inPlainFence ? [FENCE] : [XML_OPEN, FENCE];
+    let longest = 0;
+
+    for (const marker of markers) {
+      for (let length = Math.min(marker.length - 1, this.pending.length); length > longest; length--) {
+        if (this.pending.endsWith(marker.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+
+    return longest;
+  }
+
+  /**
+   * Decide early whether a fence or JSON object can be a tool call, so
+   * ordinary code blocks and JSON keep streaming
+   */
+  private classifyOpening(kind: BlockKind): 'hold' | 'text' | 'wait' {
+    if (kind === 'fence') {
+      const match = /^```([^\n]*)\n\s*(\S)?/.exec(this.pending);
+      if (!match) return 'wait';
+      if (!TOOL_FENCE_LANGUAGES.includes(match[1].trim().toLowerCase())) return 'text';
+      if (!match[2]) return 'wait';
+      return match[2] === '<' || match[2] === '{' ? 'hold' : 'text';
+    }
+
+    const match = /^\{\s*(?:["']?([\w$]+)["']?\s*:|([^\s"'\w$]))/.exec(this.pending);
+    if (!match) return this.pending.length > 200 ? 'text' : 'wait';
+    return match[1] && TOOL_CALL_KEYS.includes(match[1]) ? 'hold' : 'text';
+  }
+
+  /**
+   * Length of the complete block at the start of the pending text, or -1
+   */
+  private findBlockEnd(kind: BlockKind): number {
+    if (kind === 'xml') {
+      const close = this.pending.indexOf(XML_CLOSE);
+      return close === -1 ? -1 : close + XML_CLOSE.length;
+    }
+
+    if (kind === 'fence') {
+      const bodyStart = this.pending.indexOf('\n');
+      const close = bodyStart === -1 ? -1 : this.pending.indexOf(FENCE, bodyStart);
+      return close === -1 ? -1 : close + FENCE.length;
+    }
+
+    // Balanced braces, ignoring braces inside strings
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < this.pending.length; i++) {
+      const ch = this.pending[i];
+      if (quote) {
+        if (ch === '\\') i++;
+        else if (ch === quote) quote = null;
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}' && --depth === 0) {
+        return i + 1;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Record the tool calls in a block
+   * @returns The block's text if it turned out not to be a tool call
+   */
+  private readBlock(block: string, kind: BlockKind, unterminated: boolean): string {
+    if (kind === 'xml') {
+      const inner = block.slice(XML_OPEN.length, unterminated ? undefined : -XML_CLOSE.length);
+      this.readXMLToolCall(inner, block);
+      return '';
+    }
+
+    const body = kind === 'fence'
+      ? block.slice(block.indexOf('\n') + 1, unterminated ? undefined : -FENCE.length)
+      : block;
+
+    if (body.includes(XML_OPEN)) {
+      const calls = body.split(XML_OPEN).slice(1);
+      for (const call of calls) {
+        const close = call.indexOf(XML_CLOSE);
+        const inner = close === -1 ? call : call.slice(0, close);
+        this.readXMLToolCall(inner, XML_OPEN + (close === -1 ? call : call.slice(0, close + XML_CLOSE.length)));
+      }
+      return '';
+    }
+
+    return this.readJSONBlock(body, block) ? '' : block;
+  }
+
+  /**
+   * Read the inside of a <tool_call> element
+   */
+  private readXMLToolCall(inner: string, raw: string): void {
+    const toolName = readTag(inner, 'tool_name') ?? readTag(inner, 'name');
+
+    // Some models put a JSON call inside the element instead of tags
+    if (toolName === undefined) {
+      if (!this.readJSONBlock(inner, raw)) {
+        this.result.errors.push({ message: 'Missing <tool_name>', raw: raw.trim() });
+      }
+      return;
+    }
+
+    const serverId = readTag(inner, 'server_id') ?? '';
+    const args = readTag(inner, 'arguments') ?? readTag(inner, 'parameters') ?? '';
+
+    try {
+      this.result.calls.push({ serverId, toolName, arguments: readArguments(args) });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      this.result.errors.push({ message: `Invalid JSON in <arguments>: ${reason}`, raw: raw.trim(), toolName });
+    }
+  }
+
+  /**
+   * Read a JSON tool call (or an array of them)
+   * @returns false when the text isn't a tool call, so it can be shown as-is
+   */
+  private readJSONBlock(text: string, raw: string): boolean {
+    let value: any;
+    try {
+      value = parseLenientJSON(text);
+    } catch (error) {
+      // Unreadable, but clearly meant as a tool call
+      if (/["']?(tool_call|tool_name|toolName)["']?\s*:/.test(text)) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.result.errors.push({ message: `Invalid JSON: ${reason}`, raw: raw.trim() });
+        return true;
+      }
+      return false;
+    }
+
+    const items = Array.isArray(value) ? value : [value];
+    const calls = items.map(readJSONToolCall);
+    if (calls.length === 0 || calls.some((call) => !call)) {
+      return false;
+    }
+
+    for (const call of calls) {
+      if (!call) continue;
+      try {
+        this.result.calls.push({ serverId: call.serverId, toolName: call.toolName, arguments: readArguments(call.args) });
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        this.result.errors.push({ message: `Invalid arguments: ${reason}`, raw: raw.trim(), toolName: call.toolName });
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,447 @@
+/**
+ * OpenAI Responses API service
+ * Talks to /responses for providers set to the 'responses' API format
+ * (streaming, images, function calls mapped onto MCP tools and reasoning summaries)
+ */
+
+import {
+  LLMProvider,
+  type ChatMessage,
+  type ImageAttachment,
+  type LLMStreamRequest,
+  type LLMSettings,
+  type ResponsesContentPart,
+  type ResponsesInputItem,
+  type ResponsesRequest,
+} from '@/shared/types/llm';
+import type { StreamEvent } from '@/shared/types/messages';
+import { getAzureResponsesEndpoint } from '@/shared/utils/azure';
+import { mcpService } from './mcpService';
+import { fetchWithRetry } from './fetchWithRetry';
+import {
+  getMaxToolRounds,
+  runToolCall,
+  reportFailedToolCall,
+  getAnsweredToolCallIds,
+} from './toolExecution';
+import { createToolRegistry, type ToolRegistry } from './toolRegistry';
+import { getToolResultImages, getToolResultText } from '@/shared/utils/toolResults';
+import { supportsImageInput } from '@/shared/utils/modelFamilies';
+
+/**
+ * Build request headers for the Responses API
+ */
+function buildResponsesHeaders(settings: LLMSettings): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+
+  if (settings.provider === LLMProvider.AZURE_OPENAI) {
+    headers['api-key'] = settings.apiKey;
+  } else {
+    headers['Authorization'] = `Bearer ${settings.apiKey}`;
+  }
+
+  if (settings.provider === LLMProvider.OPENROUTER) {
+    headers['HTTP-Referer'] = chrome.runtime.getURL('');
+    headers['X-Title'] = 'Web Content Chat Extension';
+  }
+
+  return headers;
+}
+
+/**
+ * URL Responses requests are sent to
+ * The configured chat completions URL is rewritten to its /responses sibling
+ */
+function getResponsesEndpoint(settings: LLMSettings): string {
+  if (settings.provider === LLMProvider.AZURE_OPENAI) {
+    if (!settings.azure?.resourceName) {
+      throw new Error('Azure OpenAI resource name is not configured');
+    }
+    return getAzureResponsesEndpoint(settings.azure);
+  }
+  return settings.apiEndpoint.replace(/\/chat\/completions\/?$/, '/responses');
+}
+
+/**
+ * Token limit, sampling and reasoning settings for a request
+ * The Responses API has no stop sequences, seed or penalties
+ */
+function buildGenerationParams(
+  settings: LLMSettings
+): Pick<ResponsesRequest, 'max_output_tokens' | 'temperature' | 'top_p' | 'reasoning' | 'include'> {
+  const params = settings.generation || {};
+
+  return {
+    max_output_tokens: params.maxTokens,
+    temperature: params.temperature,
+    top_p: params.topP,
+    ...(settings.reasoningEffort && {
+      reasoning: { effort: settings.reasoningEffort, summary: 'auto' as const },
+      // Requests aren't stored, so reasoning is replayed in tool rounds from its encrypted form
+      include: ['reasoning.encrypted_content'],
+    }),
+  };
+}
+
+/**
+ * Format MCP tools as Responses API function tools
+ */
+function formatMCPToolsForResponses(toolRegistry: ToolRegistry): NonNullable<ResponsesRequest['tools']> {
+  return mcpService.getAllTools().map((tool) => ({
+    type: 'function',
+    name: toolRegistry.getAlias(tool.serverId, tool.name),
+    description: tool.description,
+    parameters: tool.inputSchema,
+  }));
+}
+
+/**
+ * Output of a function_call_output item: plain text, or text followed by the images
+ */
+function toFunctionOutput(text: string, images: ImageAttachment[]): string | ResponsesContentPart[] {
+  if (images.length === 0) {
+    return text;
+  }
+
+  return [
+    { type: 'input_text', text },
+    ...images.map((image): ResponsesContentPart => ({ type: 'input_image', image_url: image.data })),
+  ];
+}
+
+/**
+ * Convert chat messages into Responses input items
+ * System messages become the top-level `instructions`; stored tool calls
+ * become function_call items and `tool` messages function_call_output items
+ */
+function toResponsesInput(messages: ChatMessage[], toolRegistry: ToolRegistry): {
+  instructions: string;
+  input: ResponsesInputItem[];
+} {
+  const instructionParts: string[] = [];
+  const input: ResponsesInputItem[] = [];
+  const answeredToolCallIds = getAnsweredToolCallIds(messages);
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      if (msg.content) {
+        instructionParts.push(msg.content);
+      }
+      continue;
+    }
+
+    if (msg.role === 'tool') {
+      input.push({
+        type: 'function_call_output',
+        call_id: msg.toolCallId,
+        output: toFunctionOutput(msg.content, msg.images || []),
+      });
+      continue;
+    }
+
+    if (msg.role === 'assistant') {
+      if (msg.content) {
+        input.push({ type: 'message', role: 'assistant', content: msg.content });
+      }
+
+      for (const call of msg.toolCalls || []) {
+        if (answeredToolCallIds.has(call.id)) {
+          input.push({
+            type: 'function_call',
+            call_id: call.id,
+            name: toolRegistry.getAlias(call.serverId, call.toolName),
+            arguments: JSON.stringify(call.arguments),
+          });
+        }
+      }
+      continue;
+    }
+
+    if (msg.images && msg.images.length > 0) {
+      const content: ResponsesContentPart[] = msg.images.map((image) => ({
+        type: 'input_image',
+        image_url: image.data,
+      }));
+
+      if (msg.content) {
+        content.push({ type: 'input_text', text: msg.content });
+      }
+
+      input.push({ type: 'message', role: 'user', content });
+      continue;
+    }
+
+    input.push({ type: 'message', role: 'user', content: msg.content });
+  }
+
+  return {
+    instructions: instructionParts.join('\n\n'),
+    input,
+  };
+}
+
+/**
+ * Execute function_call items against MCP servers and build their outputs
+ * Result images are included only if sendImages is set (the model accepts images)
+ */
+async function executeFunctionCalls(
+  functionCalls: ResponsesInputItem[],
+  round: number,
+  toolRegistry: ToolRegistry,
+  sendImages: boolean,
+  streamId: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<ResponsesInputItem[]> {
+  const outputs: ResponsesInputItem[] = [];
+
+  for (const item of functionCalls) {
+    // Stop before starting the next tool if the user cancelled
+    signal?.throwIfAborted();
+
+    const target = toolRegistry.resolve(item.name || '');
+    const toolCallId = item.call_id || `tool_${Date.now()}`;
+
+    if (!target) {
+      reportFailedToolCall(
+        { id: toolCallId, round, toolName: item.name || 'unknown', arguments: {} },
+        'Unknown tool',
+        onEvent
+      );
+      outputs.push({ type: 'function_call_output', call_id: item.call_id, output: `Error: Unknown tool ${item.name}` });
+      continue;
+    }
+
+    // Never run a tool with arguments the model didn't mean to send
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(item.arguments || '{}');
+    } catch (error) {
+      console.error(`Error parsing arguments for tool ${item.name}:`, error);
+      reportFailedToolCall(
+        { id: toolCallId, round, serverId: target.serverId, toolName: target.toolName, arguments: {} },
+        `Invalid arguments: ${error}`,
+        onEvent
+      );
+      outputs.push({ type: 'function_call_output', call_id: item.call_id, output: `Error: Invalid arguments: ${error}` });
+      continue;
+    }
+
+    const result = await runToolCall({
+      id: toolCallId,
+      round,
+      serverId: target.serverId,
+      toolName: target.toolName,
+      arguments: args,
+    }, streamId, onEvent, signal);
+
+    outputs.push({
+      type: 'function_call_output',
+      call_id: item.call_id,
+      output: result.success
+        ? toFunctionOutput(getToolResultText(result.content), sendImages ? getToolResultImages(result.content) : [])
+        : `Error: ${result.error}`,
+    });
+  }
+
+  return outputs;
+}
+
+/**
+ * Process a Responses SSE stream
+ * Emits text and reasoning summary deltas and collects the finished output items
+ */
+async function processResponsesStream(
+  response: Response,
+  onEvent: (event: StreamEvent) => void
+): Promise<{ outputItems: ResponsesInputItem[]; finishReason: string | null }> {
+  if (!response.body) {
+    throw new Error('Response body is null');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  const outputItems: ResponsesInputItem[] = [];
+  let finishReason: string | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep incomplete line in buffer
+
+    for (const line of lines) {
+      const trimmedLine = line.trim();
+
+      // Event names are repeated in the payload's `type`, so only data lines matter
+      if (!trimmedLine.startsWith('data: ')) {
+        continue;
+      }
+
+      let data: any;
+      try {
+        data = JSON.parse(trimmedLine.slice(6));
+      } catch (e) {
+        console.error('Error parsing Responses SSE data:', e, trimmedLine);
+        continue;
+      }
+
+      switch (data.type) {
+        case 'response.output_text.delta':
+          onEvent({ type: 'text_delta', text: data.delta || '' });
+          break;
+
+        case 'response.reasoning_summary_part.added':
+          // Separate summary paragraphs
+          if (data.summary_index > 0) {
+            onEvent({ type: 'reasoning_delta', text: '\n\n' });
+          }
+          break;
+
+        case 'response.reasoning_summary_text.delta':
+        case 'response.reasoning_text.delta':
+          onEvent({ type: 'reasoning_delta', text: data.delta || '' });
+          break;
+
+        case 'response.output_item.done':
+          if (data.item) {
+            outputItems[data.output_index ?? outputItems.length] = data.item;
+          }
+          break;
+
+        case 'response.completed':
+        case 'response.incomplete': {
+          const usage = data.response?.usage;
+          if (usage) {
+            onEvent({
+              type: 'usage',
+              usage: {
+                promptTokens: usage.input_tokens || 0,
+                completionTokens: usage.output_tokens || 0,
+                totalTokens: usage.total_tokens || (usage.input_tokens || 0) + (usage.output_tokens || 0),
+              },
+            });
+          }
+
+          if (data.type === 'response.completed') {
+            finishReason = 'stop';
+          } else {
+            const reason = data.response?.incomplete_details?.reason;
+            finishReason = reason === 'max_output_tokens' ? 'length' : reason || 'incomplete';
+          }
+          break;
+        }
+
+        case 'response.failed': {
+          const error = data.response?.error;
+          throw new Error(`API error: ${error?.code || 'failed'} - ${error?.message || 'Unknown error'}`);
+        }
+
+        case 'error':
+          throw new Error(`API error: ${data.code || 'error'} - ${data.message || 'Unknown error'}`);
+      }
+    }
+  }
+
+  return { outputItems: outputItems.filter(Boolean), finishReason };
+}
+
+/**
+ * Output items to send back in the next tool round
+ * Reasoning can only be replayed from its encrypted form, since nothing is stored server-side
+ */
+function getReplayItems(outputItems: ResponsesInputItem[]): ResponsesInputItem[] {
+  return outputItems.filter((item) => item.type !== 'reasoning' || item.encrypted_content);
+}
+
+/**
+ * Stream a chat message through the Responses API
+ * Tools are always passed natively as function tools
+ * @throws on API or network failure (see streamChatMessage for error reporting)
+ */
+export async function streamResponsesMessage(
+  request: LLMStreamRequest,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const { messages, settings } = request;
+
+  const toolRegistry = createToolRegistry();
+  const { instructions, input } = toResponsesInput(messages, toolRegistry);
+  const tools = request.disableTools ? [] : formatMCPToolsForResponses(toolRegistry);
+
+  console.log('[Responses] Available MCP tools:', tools.length);
+
+  const endpoint = getResponsesEndpoint(settings);
+  const headers = buildResponsesHeaders(settings);
+  const maxToolRounds = getMaxToolRounds(settings);
+  let conversationInput = [...input];
+  let round = 0;
+  let finishReason: string | null = null;
+
+  while (true) {
+    // On the last allowed round, ask for an answer instead of more tool calls
+    const isFinalRound = round >= maxToolRounds;
+
+    const responsesRequest: ResponsesRequest = {
+      model: settings.model,
+      input: conversationInput,
+      ...buildGenerationParams(settings),
+      stream: true,
+      store: false,
+      ...(instructions && { instructions }),
+      ...(tools.length > 0 && {
+        tools,
+        tool_choice: isFinalRound ? 'none' as const : 'auto' as const,
+      }),
+    };
+
+    const response = await fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(responsesRequest),
+      signal,
+    }, settings, onEvent);
+
+    const { outputItems, finishReason: responseFinishReason } = await processResponsesStream(response, onEvent);
+    const functionCalls = outputItems.filter((item) => item.type === 'function_call');
+    finishReason = responseFinishReason;
+
+    if (functionCalls.length === 0) {
+      break;
+    }
+
+    if (isFinalRound) {
+      console.warn(`[Responses] Tool round limit (${maxToolRounds}) reached, dropping ${functionCalls.length} tool calls`);
+      finishReason = 'tool_round_limit';
+      break;
+    }
+
+    round++;
+
+    const outputs = await executeFunctionCalls(
+      functionCalls,
+      round,
+      toolRegistry,
+      supportsImageInput(settings),
+      request.streamId,
+      onEvent,
+      signal
+    );
+
+    console.log(`[Responses] Making follow-up request ${round}/${maxToolRounds} with tool results...`);
+
+    conversationInput = [...conversationInput, ...getReplayItems(outputItems), ...outputs];
+  }
+
+  onEvent({ type: 'done', finishReason });
+}
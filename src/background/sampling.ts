@@ -0,0 +1,121 @@
+/**
+ * MCP sampling: servers asking for completions from the user's model
+ * Every request is shown in the side panel and only runs once the user allows it
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { ChatMessage, LLMSettings } from '@/shared/types/llm';
+import type { MCPSamplingRequest, MCPSamplingResult } from '@/shared/types/mcp';
+import { MessageType } from '@/shared/types/messages';
+import { getSettings } from '@/shared/utils/storage';
+import { toPromptChatMessages } from '@/shared/utils/prompts';
+import { sendChatMessage } from './llmService';
+
+// Error code MCP uses for sampling requests the user rejected
+const USER_REJECTED_CODE = -1;
+
+let samplingRequestCount = 0;
+
+/**
+ * Ask the side panel to show the request and wait for the user's answer
+ * Fails if no side panel is open or the server cancels the request first
+ * Either way the request is then closed in every open side panel, so the first answer counts
+ */
+function requestApproval(request: MCPSamplingRequest, signal: AbortSignal): Promise<boolean> {
+  const requestId = `sampling-${Date.now()}-${++samplingRequestCount}`;
+
+  const approval = new Promise<boolean>((resolve, reject) => {
+    const onAbort = () => reject(new McpError(ErrorCode.RequestTimeout, 'Request cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    chrome.runtime
+      .sendMessage({ type: MessageType.MCP_SAMPLING_REQUEST, requestId, request })
+      .then(
+        (response) => resolve(response?.approved === true),
+        (error) => {
+          console.warn('[MCP] No side panel to approve sampling request:', error);
+          reject(new McpError(USER_REJECTED_CODE, 'Open the Chat with Pages side panel to approve sampling requests'));
+        }
+      )
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+
+  return approval.finally(() => {
+    chrome.runtime.sendMessage({ type: MessageType.MCP_SAMPLING_CLOSED, requestId }).catch(() => {
+      // No side panel left open
+    });
+  });
+}
+
+/**
+ * Settings for a sampling request: the user's model with the server's limits
+ */
+function getSamplingSettings(settings: LLMSettings, request: MCPSamplingRequest): LLMSettings {
+  return {
+    ...settings,
+    generation: {
+      ...settings.generation,
+      maxTokens: request.maxTokens,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(request.stopSequences?.length && { stop: request.stopSequences }),
+    },
+  };
+}
+
+/**
+ * MCP stop reason for a provider's finish reason
+ * Providers name the same reasons differently: the token limit is 'length'
+ * (OpenAI-style, also the Responses API's max_output_tokens) or 'max_tokens' (Anthropic)
+ */
+function toStopReason(finishReason: string | null | undefined): MCPSamplingResult['stopReason'] {
+  switch (finishReason) {
+    case 'length':
+    case 'max_tokens':
+    case 'max_output_tokens':
+      return 'maxTokens';
+    case 'stop_sequence':
+      return 'stopSequence';
+    default:
+      return 'endTurn';
+  }
+}
+
+/**
+ * Answer a sampling request with the configured LLM, without MCP tools
+ */
+export async function handleSamplingRequest(
+  request: MCPSamplingRequest,
+  signal: AbortSignal
+): Promise<MCPSamplingResult> {
+  if (!(await requestApproval(request, signal))) {
+    console.log(`[MCP] Sampling request from ${request.serverName} denied`);
+    throw new McpError(USER_REJECTED_CODE, 'User rejected sampling request');
+  }
+
+  const settings = await getSettings();
+  if (!settings?.model) {
+    throw new McpError(ErrorCode.InternalError, 'No model is configured in Chat with Pages');
+  }
+
+  const messages: ChatMessage[] = [
+    ...(request.systemPrompt ? [{ role: 'system' as const, content: request.systemPrompt, timestamp: Date.now() }] : []),
+    ...toPromptChatMessages(request.messages),
+  ];
+
+  const response = await sendChatMessage(
+    { messages, settings: getSamplingSettings(settings, request), disableTools: true },
+    signal
+  );
+
+  if (response.error) {
+    throw new McpError(ErrorCode.InternalError, response.error);
+  }
+
+  console.log(`[MCP] Answered sampling request from ${request.serverName} with ${response.model || settings.model}`);
+
+  return {
+    text: response.content,
+    model: response.model || settings.model,
+    stopReason: toStopReason(response.finishReason),
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Approval of MCP tool calls by the user before they run
+ */
+
+import type { ToolApprovalDecision, ToolApprovalPolicy } from '@/shared/types/mcp';
+import { DEFAULT_TOOL_APPROVAL_POLICY } from '@/shared/constants';
+import { getSettings } from '@/shared/utils/storage';
+
+// Tool calls waiting for an answer from the side panel, keyed by stream and tool call id
+const pendingApprovals = new Map<string, (decision: ToolApprovalDecision) => void>();
+
+/**
+ * Key of a pending approval; tool call ids repeat across streams (e.g. when
+ * comparing models, or with providers that number their calls)
+ */
+function getApprovalKey(streamId: string, toolCallId: string): string {
+  return `${streamId}:${toolCallId}`;
+}
+
+/**
+ * Policy for a tool: its own entry, else its server's, else the default
+ * Read from storage so "Always allow" applies to the rest of the response
+ */
+export async function getToolApprovalPolicy(serverId: string, toolName: string): Promise<ToolApprovalPolicy> {
+  const settings = await getSettings();
+  const server = settings?.mcp?.servers.find((s) => s.id === serverId);
+  return server?.toolPolicies?.[toolName] ?? server?.toolApproval ?? DEFAULT_TOOL_APPROVAL_POLICY;
+}
+
+/**
+ * Wait for the user to answer an approval request
+ * Resolves to 'deny' if the stream is stopped first
+ */
+export function waitForToolApproval(
+  streamId: string,
+  toolCallId: string,
+  signal?: AbortSignal
+): Promise<ToolApprovalDecision> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve('deny');
+      return;
+    }
+
+    const onAbort = () => resolveToolApproval(streamId, toolCallId, 'deny');
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    pendingApprovals.set(getApprovalKey(streamId, toolCallId), (decision) => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(decision);
+    });
+  });
+}
+
+/**
+ * Answer a pending approval request (ignored if it is no longer waiting)
+ */
+export function resolveToolApproval(streamId: string, toolCallId: string, decision: ToolApprovalDecision): void {
+  const key = getApprovalKey(streamId, toolCallId);
+  const resolve = pendingApprovals.get(key);
+  if (!resolve) return;
+
+  console.log(`[Tool] Approval for ${toolCallId} in ${streamId}: ${decision}`);
+  pendingApprovals.delete(key);
+  resolve(decision);
+}
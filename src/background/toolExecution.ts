@@ -0,0 +1,154 @@
+/**
+ * Shared helpers for running MCP tool calls from the LLM services
+ */
+
+import type { ChatMessage, LLMSettings } from '@/shared/types/llm';
+import type { MCPToolResult } from '@/shared/types/mcp';
+import type { StreamEvent } from '@/shared/types/messages';
+import { DEFAULT_MAX_TOOL_ROUNDS } from '@/shared/constants';
+import { mcpService } from './mcpService';
+import { getToolApprovalPolicy, waitForToolApproval } from './toolApproval';
+
+/**
+ * A tool call resolved to its MCP server, ready to run
+ */
+export interface PendingToolCall {
+  id: string;
+  round: number;
+  serverId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * Maximum number of tool execution rounds for a single response
+ */
+export function getMaxToolRounds(settings: LLMSettings): number {
+  return Math.max(1, settings.mcp?.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS);
+}
+
+/**
+ * Run one MCP tool call, reporting start and finish (with timing) as stream events
+ * Asks the user first unless the tool's policy allows or denies it outright
+ * Tool failures come back as an unsuccessful result instead of throwing
+ * @param streamId Stream the call belongs to, so its approval answer finds it
+ */
+export async function runToolCall(
+  call: PendingToolCall,
+  streamId: string,
+  onEvent: (event: StreamEvent) => void,
+  signal?: AbortSignal
+): Promise<MCPToolResult> {
+  onEvent({
+    type: 'tool_call_started',
+    toolCallId: call.id,
+    round: call.round,
+    serverId: call.serverId,
+    toolName: call.toolName,
+    arguments: call.arguments,
+  });
+
+  const policy = await getToolApprovalPolicy(call.serverId, call.toolName);
+  let deniedReason: string | undefined;
+
+  if (policy === 'deny') {
+    deniedReason = `Tool ${call.toolName} is blocked by the user's tool settings`;
+  } else if (policy === 'ask') {
+    const approval = waitForToolApproval(streamId, call.id, signal);
+    onEvent({ type: 'tool_approval_requested', streamId, toolCallId: call.id });
+
+    if ((await approval) === 'deny') {
+      deniedReason = `The user denied this call to ${call.toolName}`;
+    }
+  }
+
+  if (deniedReason) {
+    console.log(`[Tool] ${deniedReason}`);
+    const denied: MCPToolResult = { success: false, error: deniedReason };
+
+    onEvent({
+      type: 'tool_call_finished',
+      toolCallId: call.id,
+      serverId: call.serverId,
+      toolName: call.toolName,
+      arguments: call.arguments,
+      error: deniedReason,
+      durationMs: 0,
+    });
+
+    return denied;
+  }
+
+  const startedAt = Date.now();
+  let result: MCPToolResult;
+
+  try {
+    console.log(`[Tool] Calling ${call.toolName} with args:`, call.arguments);
+
+    result = await mcpService.callTool({
+      serverId: call.serverId,
+      toolName: call.toolName,
+      arguments: call.arguments,
+    }, signal);
+  } catch (error) {
+    console.error(`Error executing tool ${call.toolName}:`, error);
+    result = {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  onEvent({
+    type: 'tool_call_finished',
+    toolCallId: call.id,
+    serverId: call.serverId,
+    toolName: call.toolName,
+    arguments: call.arguments,
+    result: result.content,
+    error: result.success ? undefined : result.error,
+    durationMs: Date.now() - startedAt,
+  });
+
+  return result;
+}
+
+/**
+ * Report a tool call that could not be run at all (unknown tool, unparseable arguments)
+ */
+export function reportFailedToolCall(
+  call: Omit<PendingToolCall, 'serverId'> & { serverId?: string },
+  error: string,
+  onEvent: (event: StreamEvent) => void
+): void {
+  onEvent({
+    type: 'tool_call_started',
+    toolCallId: call.id,
+    round: call.round,
+    serverId: call.serverId,
+    toolName: call.toolName,
+    arguments: call.arguments,
+  });
+
+  onEvent({
+    type: 'tool_call_finished',
+    toolCallId: call.id,
+    serverId: call.serverId,
+    toolName: call.toolName,
+    arguments: call.arguments,
+    error,
+    durationMs: 0,
+  });
+}
+
+/**
+ * Ids of stored tool calls that have a matching `tool` result message
+ * Calls without one (e.g. stopped mid-round) must not be replayed, since
+ * providers reject tool calls that are never answered
+ */
+export function getAnsweredToolCallIds(messages: ChatMessage[]): Set<string> {
+  return new Set(
+    messages
+      .filter((msg) => msg.role === 'tool' && msg.toolCallId)
+      .map((msg) => msg.toolCallId as string)
+  );
+}
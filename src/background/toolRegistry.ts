@@ -0,0 +1,100 @@
+/**
+ * Function names for MCP tools in native tool calling
+ * Providers only accept names matching ^[a-zA-Z0-9_-]{1,64}$, and names built
+ * from server id and tool name can't be split apart reliably, so each tool
+ * gets an alias and calls are dispatched through a lookup table
+ */
+
+import { mcpService } from './mcpService';
+
+const MAX_ALIAS_LENGTH = 64;
+
+export interface ToolTarget {
+  serverId: string;
+  toolName: string;
+}
+
+/**
+ * Replace characters providers don't accept in function names
+ */
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, MAX_ALIAS_LENGTH) || 'tool';
+}
+
+/**
+ * Short stable hash (FNV-1a) used to tell tools with the same name apart
+ */
+function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(7, '0');
+}
+
+function withSuffix(base: string, suffix: string): string {
+  return `${base.slice(0, MAX_ALIAS_LENGTH - suffix.length - 1)}_${suffix}`;
+}
+
+/**
+ * Aliases for one set of tools
+ * A tool is exposed under its own (sanitized) name when no other tool shares
+ * it; otherwise a hash of its server and name is appended. Aliases only depend
+ * on the set of tools, so they stay the same across requests and fallbacks.
+ */
+export class ToolRegistry {
+  private aliases = new Map<string, string>(); // serverId/toolName -> alias
+  private targets = new Map<string, ToolTarget>(); // alias -> tool
+
+  constructor(tools: ToolTarget[]) {
+    const nameCounts = new Map<string, number>();
+    for (const tool of tools) {
+      const base = sanitizeName(tool.toolName);
+      nameCounts.set(base, (nameCounts.get(base) || 0) + 1);
+    }
+
+    for (const tool of tools) {
+      const base = sanitizeName(tool.toolName);
+      const hash = shortHash(`${tool.serverId}/${tool.toolName}`);
+      let alias = nameCounts.get(base) === 1 ? base : withSuffix(base, hash);
+
+      // A hashed alias could still equal another tool's own name
+      for (let n = 2; this.targets.has(alias); n++) {
+        alias = withSuffix(base, `${hash}${n}`);
+      }
+
+      this.aliases.set(`${tool.serverId}/${tool.toolName}`, alias);
+      this.targets.set(alias, tool);
+    }
+  }
+
+  /**
+   * Name a tool is exposed under
+   * Tools that aren't registered (e.g. from a server that has since
+   * disconnected, when replaying history) still get a legal, stable name
+   */
+  getAlias(serverId: string | undefined, toolName: string): string {
+    if (!serverId) {
+      return sanitizeName(toolName);
+    }
+    return this.aliases.get(`${serverId}/${toolName}`)
+      ?? withSuffix(sanitizeName(toolName), shortHash(`${serverId}/${toolName}`));
+  }
+
+  /**
+   * Tool a function name from the model refers to
+   */
+  resolve(alias: string): ToolTarget | null {
+    return this.targets.get(alias) ?? null;
+  }
+}
+
+/**
+ * Registry for the currently connected MCP tools
+ */
+export function createToolRegistry(): ToolRegistry {
+  return new ToolRegistry(
+    mcpService.getAllTools().map((tool) => ({ serverId: tool.serverId, toolName: tool.name }))
+  );
+}
@@ -1,4 +1,59 @@
 import { LLMProvider, type LLMSettings } from '@/shared/types/llm';
+import type { ToolApprovalPolicy } from '@/shared/types/mcp';
+
+export const DEFAULT_MAX_TOOL_ROUNDS = 5; // Tool call -> result round trips per response
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 30000;
+export const DEFAULT_FIRST_TOKEN_TIMEOUT_MS = 60000; // Before moving on to a fallback model
+export const MAX_COMPARE_MODELS = 3;
+export const DEFAULT_TOOL_APPROVAL_POLICY: ToolApprovalPolicy = 'ask'; // Tools never run unattended unless allowed
+export const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+export const AZURE_DEPLOYMENTS_API_VERSION = '2022-12-01'; // Last version with the deployments listing
+export const DEFAULT_CONTEXT_WINDOW_TOKENS = 32000; // For models with no known or configured limit
+export const DEFAULT_RESPONSE_RESERVE_TOKENS = 4096; // Room left for the reply when no max tokens is set
+export const MAX_PAGE_CHUNK_TOKENS = 8000; // Largest page section sent in one summarization request
+export const PAGE_SUMMARY_CONCURRENCY = 4; // Summarization requests in flight at once
+
+// Context windows of well-known model families, matched as whole words of the
+// model name, so Ollama tags like llama3.1:8b match llama-3.1 (first match wins)
+export const KNOWN_CONTEXT_WINDOWS: ReadonlyArray<[string, number]> = [
+  ['gpt-4.1', 1047576],
+  ['gpt-5', 400000],
+  ['gpt-4o', 128000],
+  ['gpt-4-turbo', 128000],
+  ['gpt-4', 8192],
+  ['gpt-3.5-turbo', 16385],
+  ['o1', 200000],
+  ['o3', 200000],
+  ['o4', 200000],
+  ['claude', 200000],
+  ['gemini', 1048576],
+  ['llama-3.1', 131072],
+  ['llama-3.2', 131072],
+  ['llama-3.3', 131072],
+  ['llama-3', 8192],
+  ['qwen-2.5', 32768],
+  ['qwen-3', 40960],
+  ['gemma-3', 131072],
+  ['gemma-2', 8192],
+  ['mistral-nemo', 131072],
+  ['mistral', 32768],
+  ['deepseek-r1', 131072],
+];
+
+// Model families that accept images, matched the same way; images returned
+// by MCP tools are only sent to these (or models the user marks as accepting images)
+export const KNOWN_IMAGE_INPUT_MODELS: ReadonlyArray<string> = [
+  'gpt-4o',
+  'gpt-4.1',
+  'gpt-5',
+  'claude',
+  'gemini',
+  'llava',
+  'llama-3.2-vision',
+  'qwen-2.5-vl',
+  'pixtral',
+];
 
 export const DEFAULT_SETTINGS: LLMSettings = {
   provider: LLMProvider.OPENAI_COMPATIBLE,
@@ -6,10 +61,20 @@ export const DEFAULT_SETTINGS: LLMSettings = {
   apiKey: '',
   model: 'gpt-4o',
   systemPrompt: 'You are a helpful assistant that answers questions about web content (if available). Use the provided web page content to answer questions accurately and concisely. Otherwise, work as a world-class personal assistant.',
+  retry: {
+    maxRetries: DEFAULT_MAX_RETRIES,
+    maxDelayMs: DEFAULT_RETRY_MAX_DELAY_MS,
+  },
+  generation: {},
+  parameterPresets: [
+    { id: 'preset-precise', name: 'Precise extraction', params: { temperature: 0.1, topP: 1 } },
+    { id: 'preset-creative', name: 'Creative rewrite', params: { temperature: 1, topP: 0.95, presencePenalty: 0.3 } },
+  ],
   mcp: {
     servers: [],
     enabledByDefault: true,
     toolCallingMode: 'prompt', // Use prompt-based tool calling by default for better compatibility
+    maxToolRounds: DEFAULT_MAX_TOOL_ROUNDS,
   },
 };
 
@@ -23,8 +88,21 @@ export const MAX_CHAT_HISTORY = 50; // Maximum messages to keep
 export const DEFAULT_ENDPOINTS: Record<LLMProvider, string> = {
   [LLMProvider.OPENROUTER]: 'https://openrouter.ai/api/v1/chat/completions',
   [LLMProvider.OPENAI_COMPATIBLE]: 'https://api.openai.com/v1/chat/completions',
+  [LLMProvider.ANTHROPIC]: 'https://api.anthropic.com/v1/messages',
+  [LLMProvider.OLLAMA]: 'http://localhost:11434/api/chat',
+  [LLMProvider.AZURE_OPENAI]: '', // Built from the resource name and deployment
 };
 
+// Providers that can run without an access key (e.g. local servers)
+export const API_KEY_OPTIONAL_PROVIDERS: readonly LLMProvider[] = [LLMProvider.OLLAMA];
+
+// Providers that can be talked to through the Responses API instead of Chat Completions
+export const RESPONSES_API_PROVIDERS: readonly LLMProvider[] = [
+  LLMProvider.OPENAI_COMPATIBLE,
+  LLMProvider.OPENROUTER,
+  LLMProvider.AZURE_OPENAI,
+];
+
 export const POPULAR_MODELS: Record<LLMProvider, readonly string[]> = {
   [LLMProvider.OPENROUTER]: [
     'openai/gpt-4',
@@ -41,4 +119,17 @@ export const POPULAR_MODELS: Record<LLMProvider, readonly string[]> = {
     'gpt-3.5-turbo',
     'gpt-4o',
   ],
+  [LLMProvider.ANTHROPIC]: [
+    'claude-sonnet-4-20250514',
+    'claude-opus-4-20250514',
+    'claude-3-7-sonnet-latest',
+    'claude-3-5-haiku-latest',
+  ],
+  [LLMProvider.OLLAMA]: [
+    'llama3.1',
+    'qwen2.5',
+    'mistral',
+    'gemma2',
+  ],
+  [LLMProvider.AZURE_OPENAI]: [], // Deployment names are chosen per resource
 };
@@ -18,3 +18,13 @@ export interface ReadabilityArticle {
   excerpt: string;
   siteName: string | null;
 }
+
+/**
+ * Section summaries of a page too long to send in full
+ */
+export interface PageSummary {
+  url: string;
+  textLength: number; // Length of the extracted text the summaries were made from
+  sections: number;
+  text: string; // Combined summaries, in page order
+}
@@ -3,44 +3,257 @@ import { MCPSettings } from './mcp';
 export enum LLMProvider {
   OPENROUTER = 'openrouter',
   OPENAI_COMPATIBLE = 'openai_compatible',
+  ANTHROPIC = 'anthropic',
+  OLLAMA = 'ollama',
+  AZURE_OPENAI = 'azure_openai',
 }
 
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
 export interface LLMSettings {
   provider: LLMProvider;
   apiEndpoint: string;
   apiKey: string;
   model: string;
+  models?: string[]; // Loaded from the service for the model picker (popular models when unset)
   systemPrompt: string;
+  reasoningEffort?: ReasoningEffort; // Unset = provider/model default
+  modelPricing?: Record<string, ModelPricing>; // User-entered prices, keyed by model id
+  contextWindows?: Record<string, number>; // Context size in tokens by model, overriding known/fetched limits
+  imageInput?: Record<string, boolean>; // Whether a model accepts images, by model, overriding known vision models
+  azure?: AzureSettings; // Azure OpenAI resource; the model field holds the deployment name
+  apiFormat?: APIFormat; // Request shape for OpenAI-style providers (default: 'chat_completions')
+  longPageMode?: LongPageMode; // What to do with pages too long for the context window (default: 'truncate')
+  retry?: RetrySettings;
+  fallbackModels?: FallbackModel[]; // Tried in order when the primary model fails
+  firstTokenTimeoutMs?: number; // Give up on a model (if a fallback exists) when it sends nothing for this long
+  generation?: GenerationParams; // Sent with every request unless the session picks a preset
+  parameterPresets?: ParameterPreset[];
+  profiles?: ProviderProfile[]; // Saved service setups a chat can switch to
   mcp?: MCPSettings;
 }
 
+/**
+ * Named service setup (key, endpoint, models and parameters)
+ * Applied over the main settings for chats that pick it in the header
+ */
+export interface ProviderProfile extends Pick<
+  LLMSettings,
+  | 'provider'
+  | 'apiEndpoint'
+  | 'apiKey'
+  | 'model'
+  | 'models'
+  | 'azure'
+  | 'apiFormat'
+  | 'reasoningEffort'
+  | 'generation'
+  | 'fallbackModels'
+  | 'firstTokenTimeoutMs'
+> {
+  id: string;
+  name: string;
+}
+
+/**
+ * 'chat_completions' uses /chat/completions; 'responses' uses the /responses API
+ */
+export type APIFormat = 'chat_completions' | 'responses';
+
+/**
+ * Azure OpenAI resource the deployment URL is built from
+ */
+export interface AzureSettings {
+  resourceName: string; // e.g. "my-resource", or a full base URL for custom domains
+  apiVersion: string;
+}
+
+/**
+ * 'truncate' sends the start of the page; 'summarize' summarizes sections and answers from the summaries
+ */
+export type LongPageMode = 'truncate' | 'summarize';
+
+/**
+ * Sampling parameters; unset values use the server default
+ */
+export interface GenerationParams {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stop?: string[];
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+/**
+ * Named set of generation parameters that a chat session can pick
+ */
+export interface ParameterPreset {
+  id: string;
+  name: string;
+  params: GenerationParams;
+}
+
+/**
+ * Fallback provider/model pair
+ * Endpoint, key and Azure resource default to the primary ones on the same provider
+ */
+export interface FallbackModel {
+  provider: LLMProvider;
+  model: string; // The deployment name for Azure OpenAI
+  apiEndpoint?: string;
+  apiKey?: string;
+  azure?: AzureSettings;
+}
+
+/**
+ * Automatic retries for transient API failures (429, 5xx, network errors)
+ */
+export interface RetrySettings {
+  maxRetries: number;
+  maxDelayMs: number; // Upper bound for a single wait, including Retry-After
+}
+
+/**
+ * Model prices in USD per million tokens
+ */
+export interface ModelPricing {
+  promptPerMillion: number;
+  completionPerMillion: number;
+}
+
 export interface ImageAttachment {
   data: string; // base64 data URL
   mimeType: string;
   name?: string;
 }
 
+/**
+ * An MCP resource attached to a user message as context
+ * Image contents go to the message's images instead of here
+ */
+export interface ResourceAttachment {
+  serverId: string;
+  uri: string;
+  name: string;
+  mimeType?: string;
+  text?: string; // Text contents sent to the model
+}
+
+export interface ToolCallRecord {
+  id: string;
+  serverId?: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  status: 'awaiting_approval' | 'running' | 'success' | 'error';
+  result?: any; // MCP content array as returned by the server
+  error?: string;
+  durationMs?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Tokens spent on a turn's requests whose output isn't a message of its own,
+ * e.g. the section summaries of a long page or compared answers that weren't picked
+ */
+export interface ExtraUsage {
+  usage: TokenUsage;
+  costUsd: number; // Of the requests with a known price
+  hasUnpricedRequests?: boolean;
+}
+
+/**
+ * What was left out of a request to fit the model's context window
+ */
+export interface ContextTrim {
+  contextWindow: number; // Tokens
+  droppedMessages: number; // Earlier chat messages not sent
+  pageCharsKept?: number; // Set when the page content was shortened
+  pageCharsTotal?: number;
+}
+
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
+  role: 'user' | 'assistant' | 'system' | 'tool';
+  content: string; // For role 'tool': the tool output as sent back to the model
+  reasoning?: string; // Thinking the model streamed before/alongside its answer
   timestamp: number;
   error?: string;
   images?: ImageAttachment[];
+  resources?: ResourceAttachment[]; // MCP resources attached to a user message
+  interrupted?: boolean; // Generation was stopped by the user before it finished
+  toolCalls?: ToolCallRecord[]; // Tools the assistant ran while producing this message
+  finishReason?: string; // Why generation stopped (e.g. 'stop', 'length', 'tool_round_limit')
+  toolCallId?: string; // For role 'tool': the assistant tool call this result answers
+  model?: string; // Model that generated an assistant message
+  usage?: TokenUsage; // Summed over all provider requests behind the message
+  latencyMs?: number; // Time from request to the end of the message
+  fallbackReason?: string; // Set when a fallback model answered instead of the primary
+  costUsd?: number; // Estimated from the model's pricing when known
+  extraUsage?: ExtraUsage; // Other requests made for this turn, counted in the chat total
+  contextTrim?: ContextTrim; // Set on an assistant message whose request had to be trimmed
+  pageSummarySections?: number; // Set when the answer was based on section summaries of a long page
+  comparison?: ComparisonAnswer[]; // Answers from several models, until one is picked to continue with
+}
+
+/**
+ * A model a message is sent to in compare mode
+ */
+export interface CompareTarget {
+  profileId?: string; // Main service settings when unset
+  model: string;
+}
+
+/**
+ * One model's answer in a comparison
+ */
+export interface ComparisonAnswer extends CompareTarget {
+  messages: ChatMessage[]; // Assistant messages and tool results, as they'd be stored in history
+  status: 'streaming' | 'done' | 'error';
 }
 
 export interface LLMRequest {
   messages: ChatMessage[];
   settings: LLMSettings;
+  disableTools?: boolean; // Don't offer MCP tools (e.g. for internal summarization requests)
+}
+
+/**
+ * A request being streamed; tool approval answers are matched on its stream ID
+ */
+export interface LLMStreamRequest extends LLMRequest {
+  streamId: string;
 }
 
 export interface LLMResponse {
-  content: string;
+  content: string; // Text of the final assistant message
+  reasoning?: string;
+  toolCalls?: ToolCallRecord[]; // Every tool call made during the turn
+  messages?: ChatMessage[]; // Full transcript: assistant messages and their tool results
+  finishReason?: string | null;
+  model?: string; // Model that answered (differs from settings after a fallback)
+  usage?: TokenUsage; // Summed over all requests in the turn
+  fallbackReason?: string;
   error?: string;
 }
 
+export interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string | Record<string, any>; // JSON string (OpenAI) or object (Ollama)
+  };
+}
+
 export interface OpenAIMessage {
   role: string;
-  content: string | Array<{
+  content: string | null | Array<{
     type: 'text' | 'image_url';
     text?: string;
     image_url?: {
@@ -48,6 +261,9 @@ export interface OpenAIMessage {
       detail?: 'low' | 'high' | 'auto';
     };
   }>;
+  images?: string[]; // Raw base64 images (Ollama /api/chat)
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
 }
 
 export interface OpenAIRequest {
@@ -56,6 +272,16 @@ export interface OpenAIRequest {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
+  top_p?: number;
+  stop?: string[];
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  options?: Record<string, any>; // Ollama sampling options
+  reasoning_effort?: ReasoningEffort; // OpenAI
+  reasoning?: { effort: ReasoningEffort }; // OpenRouter
+  think?: boolean; // Ollama
 }
 
 export interface OpenAIResponse {
@@ -78,14 +304,109 @@ export interface OpenAIResponse {
   };
 }
 
+export interface AnthropicContentBlock {
+  type: 'text' | 'image' | 'tool_use' | 'tool_result' | 'thinking' | 'redacted_thinking';
+  text?: string;
+  thinking?: string;
+  signature?: string; // Must be sent back unchanged with thinking blocks
+  data?: string; // Encrypted redacted_thinking payload
+  source?: {
+    type: 'base64';
+    media_type: string;
+    data: string;
+  };
+  id?: string;
+  name?: string;
+  input?: Record<string, any>;
+  tool_use_id?: string;
+  content?: string | AnthropicContentBlock[]; // tool_result: text, or text and image blocks
+  is_error?: boolean;
+}
+
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+export interface AnthropicRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  max_tokens: number;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  stop_sequences?: string[];
+  tools?: Array<{
+    name: string;
+    description: string;
+    input_schema: Record<string, any>;
+  }>;
+  tool_choice?: { type: 'auto' | 'any' | 'none' };
+  thinking?: { type: 'enabled'; budget_tokens: number };
+}
+
+export interface ResponsesContentPart {
+  type: 'input_text' | 'input_image' | 'output_text';
+  text?: string;
+  image_url?: string; // Data URL (input_image)
+}
+
+export interface ResponsesInputItem {
+  type: 'message' | 'function_call' | 'function_call_output' | 'reasoning';
+  id?: string;
+  role?: 'user' | 'assistant';
+  content?: string | ResponsesContentPart[];
+  call_id?: string; // function_call / function_call_output
+  name?: string;
+  arguments?: string; // JSON string
+  output?: string | ResponsesContentPart[]; // function_call_output: text, or text and images
+  summary?: Array<{ type: 'summary_text'; text: string }>; // reasoning
+  encrypted_content?: string; // reasoning, needed to replay it without server-side storage
+}
+
+export interface ResponsesRequest {
+  model: string;
+  input: ResponsesInputItem[];
+  instructions?: string;
+  stream?: boolean;
+  store?: boolean;
+  include?: string[];
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  reasoning?: { effort: ReasoningEffort; summary: 'auto' };
+  tools?: Array<{
+    type: 'function';
+    name: string;
+    description: string;
+    parameters: Record<string, any>;
+  }>;
+  tool_choice?: 'auto' | 'none';
+}
+
 export interface ModelInfo {
   id: string;
   object: string;
   created: number;
   owned_by: string;
+  pricing?: {
+    prompt: string; // USD per token (OpenRouter)
+    completion: string;
+  };
+  context_length?: number; // Tokens (OpenRouter)
 }
 
 export interface ModelsListResponse {
   data: ModelInfo[];
   object?: string;
 }
+
+export interface OllamaTagsResponse {
+  models: Array<{
+    name: string;
+    model?: string;
+    size?: number;
+    modified_at?: string;
+  }>;
+}
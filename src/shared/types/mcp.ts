@@ -19,8 +19,20 @@ export interface MCPServer {
   headers?: Record<string, string>; // Custom headers (e.g., auth tokens)
   transportType?: MCPTransportType; // Transport protocol (default: 'auto')
   timeout?: number; // Tool call timeout in milliseconds (default: 30000)
+  toolApproval?: ToolApprovalPolicy; // Policy for this server's tools (default: 'ask')
+  toolPolicies?: Record<string, ToolApprovalPolicy>; // Per-tool overrides, keyed by tool name
 }
 
+/**
+ * Whether a tool may run: 'ask' pauses the response until the user decides
+ */
+export type ToolApprovalPolicy = 'ask' | 'allow' | 'deny';
+
+/**
+ * The user's answer to an approval prompt
+ */
+export type ToolApprovalDecision = 'allow_once' | 'allow_always' | 'deny';
+
 /**
  * MCP Tool definition from server
  */
@@ -44,6 +56,55 @@ export interface MCPResource {
   mimeType?: string;
 }
 
+/**
+ * An argument an MCP prompt template takes
+ */
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * MCP Prompt template from server
+ */
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+/**
+ * One message of a filled-in prompt or a sampling request
+ */
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: MCPContent | MCPContent[]; // Sampling messages may hold several blocks
+}
+
+/**
+ * A server asking to use the user's model (sampling/createMessage)
+ */
+export interface MCPSamplingRequest {
+  serverId: string;
+  serverName: string;
+  messages: MCPPromptMessage[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelHints?: string[]; // Models the server would prefer, as advisory names
+}
+
+/**
+ * The completion returned to a server for a sampling request
+ */
+export interface MCPSamplingResult {
+  text: string;
+  model: string;
+  stopReason: 'endTurn' | 'maxTokens' | 'stopSequence';
+}
+
 /**
  * MCP Server connection status
  */
@@ -57,6 +118,7 @@ export interface MCPServerState {
   status: MCPConnectionStatus;
   tools: MCPTool[];
   resources: MCPResource[];
+  prompts: MCPPrompt[];
   error?: string;
   lastConnected?: number;
 }
@@ -70,12 +132,32 @@ export interface MCPToolCall {
   arguments: Record<string, any>;
 }
 
+/**
+ * A resource embedded in a tool result, with either text or base64 contents
+ */
+export interface MCPEmbeddedResource {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * One block of a tool result's content array
+ */
+export type MCPContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'audio'; data: string; mimeType: string }
+  | { type: 'resource'; resource: MCPEmbeddedResource }
+  | { type: 'resource_link'; uri: string; name?: string; description?: string; mimeType?: string };
+
 /**
  * MCP Tool call result
  */
 export interface MCPToolResult {
   success: boolean;
-  content?: any;
+  content?: any; // MCPContent[] for tool calls
   error?: string;
 }
 
@@ -91,4 +173,5 @@ export interface MCPSettings {
   servers: MCPServer[];
   enabledByDefault: boolean;
   toolCallingMode?: ToolCallingMode; // How to call tools: 'native' (API tools param) or 'prompt' (system prompt + regex)
+  maxToolRounds?: number; // Max tool execution rounds per response (default: DEFAULT_MAX_TOOL_ROUNDS)
 }
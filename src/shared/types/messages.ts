@@ -1,6 +1,6 @@
 import type { ExtractedContent } from './content';
-import type { ChatMessage, LLMSettings } from './llm';
-import type { MCPServer, MCPToolCall, MCPToolResult } from './mcp';
+import type { ChatMessage, LLMProvider, LLMResponse, LLMSettings, TokenUsage } from './llm';
+import type { MCPSamplingRequest, MCPServer, MCPToolCall, MCPToolResult, ToolApprovalDecision } from './mcp';
 
 export enum MessageType {
   EXTRACT_CONTENT = 'EXTRACT_CONTENT',
@@ -8,9 +8,10 @@ export enum MessageType {
   SEND_CHAT_MESSAGE = 'SEND_CHAT_MESSAGE',
   CHAT_RESPONSE = 'CHAT_RESPONSE',
   CHAT_STREAM_START = 'CHAT_STREAM_START',
-  CHAT_STREAM_CHUNK = 'CHAT_STREAM_CHUNK',
-  CHAT_STREAM_END = 'CHAT_STREAM_END',
+  CHAT_STREAM_EVENT = 'CHAT_STREAM_EVENT',
   CHAT_STREAM_ERROR = 'CHAT_STREAM_ERROR',
+  CHAT_STREAM_ABORT = 'CHAT_STREAM_ABORT',
+  TOOL_APPROVAL_RESPONSE = 'TOOL_APPROVAL_RESPONSE',
   DOWNLOAD_MARKDOWN = 'DOWNLOAD_MARKDOWN',
   GET_SETTINGS = 'GET_SETTINGS',
   UPDATE_SETTINGS = 'UPDATE_SETTINGS',
@@ -20,6 +21,12 @@ export enum MessageType {
   MCP_GET_ALL_STATES = 'MCP_GET_ALL_STATES',
   MCP_CALL_TOOL = 'MCP_CALL_TOOL',
   MCP_TOOL_RESULT = 'MCP_TOOL_RESULT',
+  MCP_READ_RESOURCE = 'MCP_READ_RESOURCE',
+  MCP_RESOURCE_CONTENTS = 'MCP_RESOURCE_CONTENTS',
+  MCP_GET_PROMPT = 'MCP_GET_PROMPT',
+  MCP_PROMPT_MESSAGES = 'MCP_PROMPT_MESSAGES',
+  MCP_SAMPLING_REQUEST = 'MCP_SAMPLING_REQUEST',
+  MCP_SAMPLING_CLOSED = 'MCP_SAMPLING_CLOSED',
 }
 
 export interface BaseMessage {
@@ -43,12 +50,11 @@ export interface SendChatMessage extends BaseMessage {
   settings: LLMSettings;
   stream?: boolean; // Whether to use streaming
   streamId?: string; // Unique ID for this stream
+  disableTools?: boolean;
 }
 
-export interface ChatResponse extends BaseMessage {
+export interface ChatResponse extends BaseMessage, LLMResponse {
   type: MessageType.CHAT_RESPONSE;
-  content: string;
-  error?: string;
 }
 
 export interface ChatStreamStart extends BaseMessage {
@@ -56,15 +62,101 @@ export interface ChatStreamStart extends BaseMessage {
   streamId: string;
 }
 
-export interface ChatStreamChunk extends BaseMessage {
-  type: MessageType.CHAT_STREAM_CHUNK;
-  streamId: string;
-  chunk: string;
+/**
+ * Stream events emitted by the background while a response is generated
+ */
+export interface TextDeltaEvent {
+  type: 'text_delta';
+  text: string;
 }
 
-export interface ChatStreamEnd extends BaseMessage {
-  type: MessageType.CHAT_STREAM_END;
+export interface ReasoningDeltaEvent {
+  type: 'reasoning_delta';
+  text: string;
+}
+
+export interface ToolCallStartedEvent {
+  type: 'tool_call_started';
+  toolCallId: string;
+  round: number; // 1-based tool round; calls in the same round answer one model response
+  serverId?: string;
+  toolName: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolCallFinishedEvent {
+  type: 'tool_call_finished';
+  toolCallId: string;
+  serverId?: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  result?: any;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * A started tool call waits for the user to allow or deny it
+ * Answered with a TOOL_APPROVAL_RESPONSE on the stream port
+ */
+export interface ToolApprovalRequestedEvent {
+  type: 'tool_approval_requested';
+  streamId: string; // Tool call IDs are only unique within a stream
+  toolCallId: string;
+}
+
+/**
+ * Token usage for one provider request (responses with tool rounds emit several)
+ */
+export interface UsageEvent {
+  type: 'usage';
+  usage: TokenUsage;
+}
+
+/**
+ * A request failed transiently and will be retried after `delayMs`
+ */
+export interface RetryingEvent {
+  type: 'retrying';
+  attempt: number; // 1-based retry number
+  maxRetries: number;
+  delayMs: number;
+  reason: string;
+}
+
+/**
+ * The current model failed before answering and the next fallback takes over
+ */
+export interface ModelFallbackEvent {
+  type: 'model_fallback';
+  provider: LLMProvider;
+  model: string;
+  reason: string;
+}
+
+/**
+ * Always the last event of a successful stream
+ */
+export interface DoneEvent {
+  type: 'done';
+  finishReason: string | null;
+}
+
+export type StreamEvent =
+  | TextDeltaEvent
+  | ReasoningDeltaEvent
+  | ToolCallStartedEvent
+  | ToolCallFinishedEvent
+  | ToolApprovalRequestedEvent
+  | UsageEvent
+  | RetryingEvent
+  | ModelFallbackEvent
+  | DoneEvent;
+
+export interface ChatStreamEvent extends BaseMessage {
+  type: MessageType.CHAT_STREAM_EVENT;
   streamId: string;
+  event: StreamEvent;
 }
 
 export interface ChatStreamError extends BaseMessage {
@@ -73,6 +165,18 @@ export interface ChatStreamError extends BaseMessage {
   error: string;
 }
 
+export interface ChatStreamAbort extends BaseMessage {
+  type: MessageType.CHAT_STREAM_ABORT;
+  streamId: string;
+}
+
+export interface ToolApprovalResponse extends BaseMessage {
+  type: MessageType.TOOL_APPROVAL_RESPONSE;
+  streamId: string;
+  toolCallId: string;
+  decision: ToolApprovalDecision;
+}
+
 export interface DownloadMarkdownMessage extends BaseMessage {
   type: MessageType.DOWNLOAD_MARKDOWN;
   content: string;
@@ -117,15 +221,57 @@ export interface MCPToolResultMessage extends BaseMessage {
   result: MCPToolResult;
 }
 
+export interface MCPReadResourceMessage extends BaseMessage {
+  type: MessageType.MCP_READ_RESOURCE;
+  serverId: string;
+  uri: string;
+}
+
+export interface MCPResourceContentsMessage extends BaseMessage {
+  type: MessageType.MCP_RESOURCE_CONTENTS;
+  result: MCPToolResult; // content: MCPEmbeddedResource[]
+}
+
+export interface MCPGetPromptMessage extends BaseMessage {
+  type: MessageType.MCP_GET_PROMPT;
+  serverId: string;
+  name: string;
+  arguments: Record<string, string>;
+}
+
+export interface MCPPromptMessagesMessage extends BaseMessage {
+  type: MessageType.MCP_PROMPT_MESSAGES;
+  result: MCPToolResult; // content: MCPPromptMessage[]
+}
+
+/**
+ * Sent by the background to the side panel, which answers { approved } once the user decides
+ */
+export interface MCPSamplingRequestMessage extends BaseMessage {
+  type: MessageType.MCP_SAMPLING_REQUEST;
+  requestId: string;
+  request: MCPSamplingRequest;
+}
+
+/**
+ * Broadcast by the background once a sampling request no longer needs an answer:
+ * the server cancelled it or a side panel already answered it
+ */
+export interface MCPSamplingClosedMessage extends BaseMessage {
+  type: MessageType.MCP_SAMPLING_CLOSED;
+  requestId: string;
+}
+
 export type Message =
   | ExtractContentMessage
   | ExtractContentResponse
   | SendChatMessage
   | ChatResponse
   | ChatStreamStart
-  | ChatStreamChunk
-  | ChatStreamEnd
+  | ChatStreamEvent
   | ChatStreamError
+  | ChatStreamAbort
+  | ToolApprovalResponse
   | DownloadMarkdownMessage
   | GetSettingsMessage
   | UpdateSettingsMessage
@@ -134,4 +280,10 @@ export type Message =
   | MCPGetServerStateMessage
   | MCPGetAllStatesMessage
   | MCPCallToolMessage
-  | MCPToolResultMessage;
+  | MCPToolResultMessage
+  | MCPReadResourceMessage
+  | MCPResourceContentsMessage
+  | MCPGetPromptMessage
+  | MCPPromptMessagesMessage
+  | MCPSamplingRequestMessage
+  | MCPSamplingClosedMessage;
@@ -0,0 +1,35 @@
+import type { AzureSettings } from '@/shared/types/llm';
+import { AZURE_DEPLOYMENTS_API_VERSION } from '@/shared/constants';
+
+/**
+ * Base URL of an Azure OpenAI resource
+ * A resource name maps to its default domain; a full URL (custom domain) is used as-is
+ */
+export function getAzureBaseURL(resourceName: string): string {
+  const resource = resourceName.trim();
+  if (/^https?:\/\//.test(resource)) {
+    return resource.replace(/\/+$/, '');
+  }
+  return `https://${resource}.openai.azure.com`;
+}
+
+/**
+ * Chat completions URL for one deployment
+ */
+export function getAzureChatEndpoint(azure: AzureSettings, deployment: string): string {
+  return `${getAzureBaseURL(azure.resourceName)}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(azure.apiVersion)}`;
+}
+
+/**
+ * Responses API URL of the resource (the deployment goes in the request's model field)
+ */
+export function getAzureResponsesEndpoint(azure: AzureSettings): string {
+  return `${getAzureBaseURL(azure.resourceName)}/openai/responses?api-version=${encodeURIComponent(azure.apiVersion)}`;
+}
+
+/**
+ * URL listing the resource's deployments
+ */
+export function getAzureDeploymentsEndpoint(azure: AzureSettings): string {
+  return `${getAzureBaseURL(azure.resourceName)}/openai/deployments?api-version=${AZURE_DEPLOYMENTS_API_VERSION}`;
+}
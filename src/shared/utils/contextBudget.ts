@@ -0,0 +1,212 @@
+import {
+  LLMProvider,
+  type ChatMessage,
+  type ContextTrim,
+  type LLMSettings,
+} from '@/shared/types/llm';
+import type { ExtractedContent } from '@/shared/types/content';
+import type { MCPServerState } from '@/shared/types/mcp';
+import {
+  DEFAULT_CONTEXT_WINDOW_TOKENS,
+  DEFAULT_RESPONSE_RESERVE_TOKENS,
+  KNOWN_CONTEXT_WINDOWS,
+} from '@/shared/constants';
+import { fetchOpenRouterContextLengths } from './modelsFetch';
+import { matchesModelFamily } from './modelFamilies';
+
+const CHARS_PER_TOKEN = 4; // Rough average for English text
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role and formatting around each message
+const IMAGE_TOKENS = 1000; // Typical cost of one image attachment
+
+// OpenRouter context lengths, fetched once per endpoint
+const openRouterContextCache = new Map<string, Promise<Record<string, number>>>();
+
+export interface ContextInput {
+  systemPrompt: string;
+  content: ExtractedContent | null;
+  history: ChatMessage[]; // Messages before the reply being generated
+  toolDefinitionTokens: number;
+  contextWindow: number;
+  responseReserve: number;
+}
+
+export interface ContextResult {
+  messages: ChatMessage[]; // System message followed by the history that fits
+  trim: ContextTrim | null; // null when everything fit
+}
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Approximate number of characters that make up a token count
+ */
+export function tokensToChars(tokens: number): number {
+  return tokens * CHARS_PER_TOKEN;
+}
+
+/**
+ * Estimate the tokens a chat message takes up in a request
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content);
+
+  if (message.toolCalls) {
+    tokens += estimateTokens(JSON.stringify(message.toolCalls.map((call) => call.arguments)));
+  }
+  if (message.images) {
+    tokens += message.images.length * IMAGE_TOKENS;
+  }
+
+  return tokens;
+}
+
+/**
+ * Estimate the tokens taken by the MCP tool definitions sent with each request
+ */
+export function estimateToolDefinitionTokens(states: MCPServerState[]): number {
+  return states
+    .filter((state) => state.status === 'connected')
+    .flatMap((state) => state.tools)
+    .reduce((total, tool) => total + estimateTokens(JSON.stringify(tool)), 0);
+}
+
+/**
+ * Tokens to keep free for the model's reply
+ */
+export function getResponseReserve(settings: LLMSettings): number {
+  return settings.generation?.maxTokens ?? DEFAULT_RESPONSE_RESERVE_TOKENS;
+}
+
+/**
+ * Look up the context window of a model
+ * A configured size wins, then OpenRouter's metadata, then well-known model families
+ */
+export async function getContextWindow(settings: LLMSettings, model: string): Promise<number> {
+  const configured = settings.contextWindows?.[model];
+  if (configured) {
+    return configured;
+  }
+
+  if (settings.provider === LLMProvider.OPENROUTER) {
+    let contextLengths = openRouterContextCache.get(settings.apiEndpoint);
+    if (!contextLengths) {
+      contextLengths = fetchOpenRouterContextLengths(settings.apiEndpoint, settings.apiKey);
+      openRouterContextCache.set(settings.apiEndpoint, contextLengths);
+    }
+
+    try {
+      const fetched = (await contextLengths)[model];
+      if (fetched) {
+        return fetched;
+      }
+    } catch (error) {
+      // Try again next time
+      openRouterContextCache.delete(settings.apiEndpoint);
+      console.warn('Could not load OpenRouter context lengths:', error);
+    }
+  }
+
+  const known = KNOWN_CONTEXT_WINDOWS.find(([family]) => matchesModelFamily(model, family));
+  return known ? known[1] : DEFAULT_CONTEXT_WINDOW_TOKENS;
+}
+
+/**
+ * Split history into turns, each starting at a user message, so an assistant
+ * message is never sent without the tool results that answer it
+ */
+function splitIntoTurns(history: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+
+  for (const message of history) {
+    if (message.role === 'user' || turns.length === 0) {
+      turns.push([message]);
+    } else {
+      turns[turns.length - 1].push(message);
+    }
+  }
+
+  return turns;
+}
+
+function formatPageContent(content: ExtractedContent, text: string): string {
+  return `\n\nWeb page content:\nTitle: ${content.title}\nURL: ${content.url}\n\n${text}`;
+}
+
+/**
+ * Fit the system prompt, page content and history into the model's context window
+ * Space is filled in priority order: system prompt, page content, tool
+ * definitions, then as many recent turns as fit. The current turn is always
+ * sent; older turns are dropped whole, oldest first, and the page is cut short
+ * only when it would not fit alongside the current turn
+ */
+export function buildContextMessages(input: ContextInput): ContextResult {
+  const { systemPrompt, content, history, toolDefinitionTokens, contextWindow, responseReserve } = input;
+
+  const turns = splitIntoTurns(history);
+  const currentTurn = turns.pop() || [];
+  const turnTokens = (turn: ChatMessage[]) =>
+    turn.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+  let available = contextWindow - responseReserve - toolDefinitionTokens
+    - estimateTokens(systemPrompt) - MESSAGE_OVERHEAD_TOKENS - turnTokens(currentTurn);
+
+  // Page content, shortened to what's left after the essentials
+  let systemContent = systemPrompt;
+  let pageCharsKept: number | undefined;
+  let pageCharsTotal: number | undefined;
+
+  if (content) {
+    const text = content.textContent;
+    const headerTokens = estimateTokens(formatPageContent(content, ''));
+    const maxChars = Math.max(0, (available - headerTokens) * CHARS_PER_TOKEN);
+
+    if (text.length > maxChars) {
+      pageCharsKept = maxChars;
+      pageCharsTotal = text.length;
+      systemContent += formatPageContent(
+        content,
+        `${text.slice(0, maxChars)}\n\n[Page content truncated: showing the first ${maxChars} of ${text.length} characters]`
+      );
+    } else {
+      systemContent += formatPageContent(content, text);
+    }
+
+    available -= estimateTokens(systemContent) - estimateTokens(systemPrompt);
+  }
+
+  // Most recent earlier turns, stopping at the first that doesn't fit
+  const keptTurns: ChatMessage[][] = [];
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = turnTokens(turns[i]);
+    if (tokens > available) break;
+    keptTurns.unshift(turns[i]);
+    available -= tokens;
+  }
+
+  const droppedMessages = turns
+    .slice(0, turns.length - keptTurns.length)
+    .flat()
+    .filter((message) => message.role !== 'tool').length;
+
+  if (droppedMessages > 0) {
+    systemContent += `\n\n(${droppedMessages} earlier messages of this conversation were left out to fit the model's context window.)`;
+  }
+
+  const systemMessage: ChatMessage = {
+    role: 'system',
+    content: systemContent,
+    timestamp: Date.now(),
+  };
+
+  const trimmed = droppedMessages > 0 || pageCharsKept !== undefined;
+
+  return {
+    messages: [systemMessage, ...keptTurns.flat(), ...currentTurn],
+    trim: trimmed ? { contextWindow, droppedMessages, pageCharsKept, pageCharsTotal } : null,
+  };
+}
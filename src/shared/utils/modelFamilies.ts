@@ -0,0 +1,33 @@
+import type { LLMSettings } from '@/shared/types/llm';
+import { KNOWN_IMAGE_INPUT_MODELS } from '@/shared/constants';
+
+/**
+ * Words of a model name, splitting letters from numbers so that `llama3.1:8b`
+ * and `meta-llama/llama-3.1-8b` both read as llama, 3.1, 8, b
+ */
+function toModelWords(name: string): string[] {
+  return name.toLowerCase().match(/[a-z]+|\d+(?:\.\d+)*/g) || [];
+}
+
+/**
+ * Whether a model belongs to a family, i.e. contains the family's words in order
+ * (so `gpt-4` matches `gpt-4-0613` but not `gpt-4.1`, and `o1` doesn't match `pro1`)
+ */
+export function matchesModelFamily(model: string, family: string): boolean {
+  const words = toModelWords(model);
+  const familyWords = toModelWords(family);
+  return words.some((_, start) => familyWords.every((word, i) => words[start + i] === word));
+}
+
+/**
+ * Whether the request's model accepts images
+ * The user's per-model setting wins, then well-known vision model families
+ */
+export function supportsImageInput(settings: LLMSettings): boolean {
+  const configured = settings.imageInput?.[settings.model];
+  if (configured !== undefined) {
+    return configured;
+  }
+
+  return KNOWN_IMAGE_INPUT_MODELS.some((family) => matchesModelFamily(settings.model, family));
+}
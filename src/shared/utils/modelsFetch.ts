@@ -1,47 +1,58 @@
-import type { ModelsListResponse, ModelInfo, LLMProvider } from '@/shared/types/llm';
+import {
+  LLMProvider,
+  type AzureSettings,
+  type ModelsListResponse,
+  type ModelInfo,
+  type ModelPricing,
+  type OllamaTagsResponse,
+} from '@/shared/types/llm';
+import { getAzureDeploymentsEndpoint } from './azure';
 
 /**
  * Fetch available models from the API endpoint
  * @param apiEndpoint Base API endpoint
  * @param apiKey API key for authentication
  * @param provider Provider type (for specific headers)
- * @returns Array of model IDs
+ * @param azure Azure resource, whose deployments are listed instead of models
+ * @returns Array of model IDs (deployment names for Azure)
  */
 export async function fetchModelsFromAPI(
   apiEndpoint: string,
   apiKey: string,
-  provider: LLMProvider
+  provider: LLMProvider,
+  azure?: AzureSettings
 ): Promise<string[]> {
   try {
-    // Construct models endpoint by replacing /chat/completions with /models
-    const modelsEndpoint = apiEndpoint.replace(/\/chat\/completions\/?$/, '/models');
-
-    const headers: HeadersInit = {
-      'Authorization': `Bearer ${apiKey}`,
-    };
-
-    // Add OpenRouter specific headers if needed
-    if (provider === 'openrouter') {
-      headers['HTTP-Referer'] = chrome.runtime.getURL('');
-      headers['X-Title'] = 'Web Content Chat Extension';
-    }
-
-    const response = await fetch(modelsEndpoint, {
+    const response = await fetch(getModelsEndpoint(apiEndpoint, provider, azure), {
       method: 'GET',
-      headers,
+      headers: getModelsHeaders(apiKey, provider),
     });
 
     if (!response.ok) {
       throw new Error(`Failed to fetch models: ${response.status}`);
     }
 
+    // Ollama lists local models under `models` with a `name` field
+    if (provider === LLMProvider.OLLAMA) {
+      const data: OllamaTagsResponse = await response.json();
+
+      if (!data.models || !Array.isArray(data.models)) {
+        throw new Error('Invalid models response format');
+      }
+
+      return data.models
+        .map((model) => model.name)
+        .filter((name: string) => name && name.trim().length > 0)
+        .sort();
+    }
+
     const data: ModelsListResponse = await response.json();
 
     if (!data.data || !Array.isArray(data.data)) {
       throw new Error('Invalid models response format');
     }
 
-    // Extract model IDs and sort them
+    // Extract model IDs (Azure lists deployments in the same shape) and sort them
     return data.data
       .map((model: ModelInfo) => model.id)
       .filter((id: string) => id && id.trim().length > 0)
@@ -51,3 +62,123 @@ export async function fetchModelsFromAPI(
     throw error;
   }
 }
+
+/**
+ * Fetch per-model prices from OpenRouter's /models metadata
+ * @param apiEndpoint OpenRouter chat endpoint
+ * @param apiKey API key for authentication
+ * @returns Prices keyed by model ID (models without pricing are skipped)
+ */
+export async function fetchOpenRouterPricing(
+  apiEndpoint: string,
+  apiKey: string
+): Promise<Record<string, ModelPricing>> {
+  const models = await fetchOpenRouterModels(apiEndpoint, apiKey);
+  const pricing: Record<string, ModelPricing> = {};
+
+  for (const model of models) {
+    const prompt = parseFloat(model.pricing?.prompt ?? '');
+    const completion = parseFloat(model.pricing?.completion ?? '');
+
+    if (!isNaN(prompt) && !isNaN(completion)) {
+      // OpenRouter quotes USD per token
+      pricing[model.id] = {
+        promptPerMillion: prompt * 1e6,
+        completionPerMillion: completion * 1e6,
+      };
+    }
+  }
+
+  return pricing;
+}
+
+/**
+ * Fetch per-model context windows from OpenRouter's /models metadata
+ * @param apiEndpoint OpenRouter chat endpoint
+ * @param apiKey API key for authentication
+ * @returns Context length in tokens keyed by model ID
+ */
+export async function fetchOpenRouterContextLengths(
+  apiEndpoint: string,
+  apiKey: string
+): Promise<Record<string, number>> {
+  const models = await fetchOpenRouterModels(apiEndpoint, apiKey);
+  const contextLengths: Record<string, number> = {};
+
+  for (const model of models) {
+    if (model.context_length) {
+      contextLengths[model.id] = model.context_length;
+    }
+  }
+
+  return contextLengths;
+}
+
+/**
+ * Fetch OpenRouter's model list with its metadata
+ */
+async function fetchOpenRouterModels(apiEndpoint: string, apiKey: string): Promise<ModelInfo[]> {
+  const response = await fetch(getModelsEndpoint(apiEndpoint, LLMProvider.OPENROUTER), {
+    method: 'GET',
+    headers: getModelsHeaders(apiKey, LLMProvider.OPENROUTER),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch model metadata: ${response.status}`);
+  }
+
+  const data: ModelsListResponse = await response.json();
+  return data.data || [];
+}
+
+/**
+ * Derive the models listing endpoint from the chat endpoint
+ */
+function getModelsEndpoint(apiEndpoint: string, provider: LLMProvider, azure?: AzureSettings): string {
+  switch (provider) {
+    case LLMProvider.AZURE_OPENAI:
+      if (!azure?.resourceName) {
+        throw new Error('Azure OpenAI resource name is not configured');
+      }
+      return getAzureDeploymentsEndpoint(azure);
+    case LLMProvider.ANTHROPIC:
+      return apiEndpoint.replace(/\/messages\/?$/, '/models?limit=1000');
+    case LLMProvider.OLLAMA:
+      return apiEndpoint.replace(/\/api\/chat\/?$/, '/api/tags');
+    default:
+      // Replace /chat/completions with /models
+      return apiEndpoint.replace(/\/chat\/completions\/?$/, '/models');
+  }
+}
+
+/**
+ * Build authentication headers for the models request
+ */
+function getModelsHeaders(apiKey: string, provider: LLMProvider): Record<string, string> {
+  if (provider === LLMProvider.ANTHROPIC) {
+    return {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+  }
+
+  if (provider === LLMProvider.AZURE_OPENAI) {
+    return { 'api-key': apiKey };
+  }
+
+  const headers: Record<string, string> = {};
+
+  // Local Ollama servers usually run without auth
+  if (apiKey || provider !== LLMProvider.OLLAMA) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+
+  // Add OpenRouter specific headers if needed
+  if (provider === LLMProvider.OPENROUTER) {
+    headers['HTTP-Referer'] = chrome.runtime.getURL('');
+    headers['X-Title'] = 'Web Content Chat Extension';
+  }
+
+  return headers;
+}
@@ -0,0 +1,254 @@
+import type { ExtractedContent, PageSummary } from '@/shared/types/content';
+import type { ChatMessage, LLMSettings, TokenUsage } from '@/shared/types/llm';
+import { MessageType, type ChatStreamError, type ChatStreamEvent } from '@/shared/types/messages';
+import { PAGE_SUMMARY_CONCURRENCY } from '@/shared/constants';
+import { getAnsweringSettings } from './profiles';
+import { addUsage } from './usage';
+
+export interface PageChunk {
+  heading?: string; // Heading the chunk starts under, if any
+  text: string;
+}
+
+const SECTION_SUMMARY_PROMPT =
+  'You summarize one section of a long web page so questions about the page can be answered from the summaries. ' +
+  'Keep facts, figures, names, definitions, steps and conclusions; leave out navigation and boilerplate. ' +
+  'Reply with the summary only.';
+
+/**
+ * Headings of the page, in document order
+ */
+function getHeadings(html: string): string[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  return Array.from(doc.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+    .map((heading) => heading.textContent?.replace(/\s+/g, ' ').trim() || '')
+    .filter(Boolean);
+}
+
+/**
+ * Split the plain text where the page's headings appear
+ */
+function splitOnHeadings(content: ExtractedContent): PageChunk[] {
+  const text = content.textContent;
+  const sections: PageChunk[] = [];
+  let heading: string | undefined;
+  let start = 0;
+  let position = 0;
+
+  for (const title of getHeadings(content.content)) {
+    const index = text.indexOf(title, position);
+    if (index === -1) continue; // Heading text doesn't appear verbatim in the plain text
+
+    sections.push({ heading, text: text.slice(start, index) });
+    heading = title;
+    start = index;
+    position = index + title.length;
+  }
+  sections.push({ heading, text: text.slice(start) });
+
+  return sections.filter((section) => section.text.trim());
+}
+
+/**
+ * Cut text that is too long on its own, preferring paragraph and line breaks
+ */
+function splitLongText(text: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf('\n\n');
+    if (cut < maxChars / 2) cut = window.lastIndexOf('\n');
+    if (cut < maxChars / 2) cut = maxChars;
+
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  pieces.push(rest);
+
+  return pieces;
+}
+
+/**
+ * Split page text into chunks of at most maxChars on heading boundaries
+ * Short neighbouring sections share a chunk; long ones are cut at paragraphs
+ */
+export function splitPageIntoChunks(content: ExtractedContent, maxChars: number): PageChunk[] {
+  const chunks: PageChunk[] = [];
+
+  for (const section of splitOnHeadings(content)) {
+    const last = chunks[chunks.length - 1];
+    if (last && last.text.length + section.text.length <= maxChars) {
+      last.text += section.text;
+      continue;
+    }
+
+    for (const piece of splitLongText(section.text, maxChars)) {
+      chunks.push({ heading: section.heading, text: piece });
+    }
+  }
+
+  return chunks;
+}
+
+let summaryRequestCount = 0;
+
+/**
+ * Run one summary request over a stream port, like a chat answer
+ * Aborting cancels the request in the background instead of just ignoring it
+ * @returns The summary text, its token usage and the settings of the model that answered
+ */
+function streamSummaryRequest(
+  messages: ChatMessage[],
+  settings: LLMSettings,
+  signal?: AbortSignal
+): Promise<{ text: string; usage?: TokenUsage; answeringSettings: LLMSettings }> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+
+    const streamId = `summary-${Date.now()}-${++summaryRequestCount}`;
+    const port = chrome.runtime.connect({ name: 'chat-stream' });
+    let text = '';
+    let usage: TokenUsage | undefined;
+    let answeringSettings = settings;
+
+    const settle = (finish: () => void) => {
+      signal?.removeEventListener('abort', onAbort);
+      port.disconnect();
+      finish();
+    };
+
+    const onAbort = () => {
+      port.postMessage({ type: MessageType.CHAT_STREAM_ABORT, streamId });
+      settle(() => reject(signal?.reason));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    port.onMessage.addListener((message: ChatStreamEvent | ChatStreamError) => {
+      if (message.streamId !== streamId) return;
+
+      if (message.type === MessageType.CHAT_STREAM_ERROR) {
+        settle(() => reject(new Error(message.error)));
+        return;
+      }
+
+      const { event } = message;
+      if (event.type === 'text_delta') {
+        text += event.text;
+      } else if (event.type === 'usage') {
+        usage = addUsage(usage, event.usage);
+      } else if (event.type === 'model_fallback') {
+        answeringSettings = getAnsweringSettings(settings, event.provider, event.model);
+      } else if (event.type === 'done') {
+        settle(() => resolve({ text, usage, answeringSettings }));
+      }
+    });
+
+    port.onDisconnect.addListener(() => {
+      settle(() => reject(new Error('Connection to the background closed')));
+    });
+
+    port.postMessage({
+      type: MessageType.SEND_CHAT_MESSAGE,
+      messages,
+      settings,
+      stream: true,
+      streamId,
+      disableTools: true,
+    });
+  });
+}
+
+/**
+ * Summarize one chunk, reporting the request's token usage
+ */
+async function summarizeChunk(
+  chunk: PageChunk,
+  index: number,
+  total: number,
+  content: ExtractedContent,
+  settings: LLMSettings,
+  onUsage: (usage: TokenUsage, answeringSettings: LLMSettings) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: SECTION_SUMMARY_PROMPT, timestamp: Date.now() },
+    {
+      role: 'user',
+      content: `Page: ${content.title}\nSection ${index + 1} of ${total}${chunk.heading ? ` (${chunk.heading})` : ''}\n\n${chunk.text}`,
+      timestamp: Date.now(),
+    },
+  ];
+
+  const { text, usage, answeringSettings } = await streamSummaryRequest(messages, settings, signal);
+  if (usage) {
+    onUsage(usage, answeringSettings);
+  }
+
+  return text.trim();
+}
+
+/**
+ * Summarize a long page section by section, a few requests at a time
+ * No new sections are started once one fails or the signal aborts; aborting
+ * also cancels the requests still running
+ * @param onProgress Called with the number of finished sections
+ * @param onUsage Called with the token usage of each finished request, also when a later one fails
+ * @throws if any section fails to summarize, or the signal's reason on abort
+ */
+export async function summarizePage(
+  content: ExtractedContent,
+  settings: LLMSettings,
+  maxChunkChars: number,
+  onProgress: (done: number, total: number) => void,
+  onUsage: (usage: TokenUsage, answeringSettings: LLMSettings) => void,
+  signal?: AbortSignal
+): Promise<PageSummary> {
+  const chunks = splitPageIntoChunks(content, maxChunkChars);
+  const summaries: string[] = new Array(chunks.length);
+  let next = 0;
+  let done = 0;
+
+  // Aborted by the caller, or by the first failed section to cancel the others
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  onProgress(0, chunks.length);
+
+  const worker = async () => {
+    while (next < chunks.length && !controller.signal.aborted) {
+      const index = next++;
+      try {
+        summaries[index] = await summarizeChunk(
+          chunks[index], index, chunks.length, content, settings, onUsage, controller.signal
+        );
+      } catch (error) {
+        controller.abort(error);
+        throw error;
+      }
+      onProgress(++done, chunks.length);
+    }
+  };
+
+  try {
+    await Promise.all(
+      Array.from({ length: Math.min(PAGE_SUMMARY_CONCURRENCY, chunks.length) }, worker)
+    );
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+
+  const sections = chunks
+    .map((chunk, i) => `## Section ${i + 1}${chunk.heading ? `: ${chunk.heading}` : ''}\n${summaries[i]}`)
+    .join('\n\n');
+
+  return {
+    url: content.url,
+    textLength: content.textContent.length,
+    sections: chunks.length,
+    text: `The page is too long to include in full. These are summaries of its ${chunks.length} sections, in order.\n\n${sections}`,
+  };
+}
@@ -0,0 +1,109 @@
+import type { CompareTarget, LLMProvider, LLMSettings, ProviderProfile } from '@/shared/types/llm';
+import { DEFAULT_ENDPOINTS } from '@/shared/constants';
+
+type ProfileFields = Omit<ProviderProfile, 'id' | 'name'>;
+
+/**
+ * The settings a profile holds, taken from settings or another profile
+ * Every field is set (even when undefined) so applying a profile fully replaces them
+ */
+function pickProfileFields(source: ProfileFields): ProfileFields {
+  return {
+    provider: source.provider,
+    apiEndpoint: source.apiEndpoint,
+    apiKey: source.apiKey,
+    model: source.model,
+    models: source.models,
+    azure: source.azure,
+    apiFormat: source.apiFormat,
+    reasoningEffort: source.reasoningEffort,
+    generation: source.generation,
+    fallbackModels: source.fallbackModels,
+    firstTokenTimeoutMs: source.firstTokenTimeoutMs,
+  };
+}
+
+/**
+ * Snapshot the current service settings as a new profile
+ */
+export function createProfile(settings: LLMSettings, name: string): ProviderProfile {
+  return { id: `profile-${Date.now()}`, name, ...pickProfileFields(settings) };
+}
+
+/**
+ * Overwrite a profile with the current service settings, keeping its id and name
+ */
+export function updateProfile(profile: ProviderProfile, settings: LLMSettings): ProviderProfile {
+  return { ...profile, ...pickProfileFields(settings) };
+}
+
+/**
+ * Settings with a profile's service settings in place of the main ones
+ */
+export function applyProfile(settings: LLMSettings, profile: ProviderProfile): LLMSettings {
+  return { ...settings, ...pickProfileFields(profile) };
+}
+
+/**
+ * Settings a chat's requests use: its profile, then its parameter preset
+ * Ids of deleted profiles or presets fall back to the main settings
+ */
+export function getSessionSettings(
+  settings: LLMSettings,
+  session: { profileId?: string; presetId?: string }
+): LLMSettings {
+  const profile = settings.profiles?.find((p) => p.id === session.profileId);
+  const preset = settings.parameterPresets?.find((p) => p.id === session.presetId);
+
+  const profileSettings = profile ? applyProfile(settings, profile) : settings;
+  return preset ? { ...profileSettings, generation: preset.params } : profileSettings;
+}
+
+/**
+ * Settings for one model of a comparison
+ * The target's profile (or the main settings) with the chat's preset, and no
+ * fallbacks so the answer always comes from the model being compared
+ */
+export function getCompareTargetSettings(
+  settings: LLMSettings,
+  session: { presetId?: string },
+  target: CompareTarget
+): LLMSettings {
+  const targetSettings = getSessionSettings(settings, { profileId: target.profileId, presetId: session.presetId });
+  return { ...targetSettings, model: target.model.trim(), fallbackModels: [] };
+}
+
+/**
+ * Settings for each fallback model, inheriting everything else from the primary
+ * A fallback on the same provider reuses the primary endpoint, key and Azure resource
+ */
+export function getFallbackSettings(settings: LLMSettings): LLMSettings[] {
+  return (settings.fallbackModels || [])
+    .filter((fallback) => fallback.model)
+    .map((fallback) => {
+      const sameProvider = fallback.provider === settings.provider;
+      return {
+        ...settings,
+        provider: fallback.provider,
+        model: fallback.model,
+        apiEndpoint: fallback.apiEndpoint || (sameProvider ? settings.apiEndpoint : DEFAULT_ENDPOINTS[fallback.provider]),
+        apiKey: fallback.apiKey || (sameProvider ? settings.apiKey : ''),
+        azure: fallback.azure || (sameProvider ? settings.azure : undefined),
+      };
+    });
+}
+
+/**
+ * Settings of the model that actually answered a request: the primary, or
+ * the fallback a `model_fallback` event switched to
+ */
+export function getAnsweringSettings(settings: LLMSettings, provider: LLMProvider, model: string): LLMSettings {
+  if (provider === settings.provider && model === settings.model) {
+    return settings;
+  }
+
+  return (
+    getFallbackSettings(settings).find((fallback) => fallback.provider === provider && fallback.model === model)
+    || { ...settings, provider, model }
+  );
+}
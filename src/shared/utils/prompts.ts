@@ -0,0 +1,34 @@
+import type { ChatMessage } from '@/shared/types/llm';
+import type { MCPPromptMessage } from '@/shared/types/mcp';
+import { getToolResultImages, getToolResultText } from './toolResults';
+
+/**
+ * Chat messages for the messages of a filled-in MCP prompt (or sampling request)
+ * Consecutive messages of the same role are merged, since providers expect
+ * user and assistant turns to alternate
+ */
+export function toPromptChatMessages(promptMessages: MCPPromptMessage[]): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  for (const promptMessage of promptMessages) {
+    const content = [promptMessage.content].flat();
+    const text = getToolResultText(content);
+    const images = getToolResultImages(content);
+    const previous = messages[messages.length - 1];
+
+    if (previous?.role === promptMessage.role) {
+      previous.content = previous.content ? `${previous.content}\n\n${text}` : text;
+      previous.images = [...(previous.images || []), ...images];
+      continue;
+    }
+
+    messages.push({
+      role: promptMessage.role,
+      content: text,
+      timestamp: Date.now(),
+      ...(images.length > 0 && { images }),
+    });
+  }
+
+  return messages;
+}
@@ -0,0 +1,56 @@
+import type { ChatMessage, ImageAttachment, ResourceAttachment } from '@/shared/types/llm';
+import type { MCPEmbeddedResource, MCPResource } from '@/shared/types/mcp';
+import { toDataURL } from './toolResults';
+
+/**
+ * Turn the contents read from a resource into an attachment
+ * Text goes into the attachment, image blobs become images, and other
+ * binary contents are only noted since the model can't read them
+ */
+export function toResourceAttachment(
+  serverId: string,
+  resource: MCPResource,
+  contents: MCPEmbeddedResource[]
+): { resource: ResourceAttachment; images: ImageAttachment[] } {
+  const textParts: string[] = [];
+  const images: ImageAttachment[] = [];
+
+  for (const item of contents) {
+    const mimeType = item.mimeType || resource.mimeType;
+
+    if (item.text !== undefined) {
+      textParts.push(item.text);
+    } else if (item.blob && mimeType?.startsWith('image/')) {
+      images.push({ data: toDataURL(mimeType, item.blob), mimeType, name: resource.name });
+    } else if (item.blob) {
+      textParts.push(`[Binary contents of ${item.uri}${mimeType ? ` (${mimeType})` : ''} not included]`);
+    }
+  }
+
+  return {
+    resource: {
+      serverId,
+      uri: resource.uri,
+      name: resource.name,
+      mimeType: resource.mimeType,
+      text: textParts.length > 0 ? textParts.join('\n\n') : undefined,
+    },
+    images,
+  };
+}
+
+/**
+ * A user message with its attached resources written out ahead of the text
+ */
+export function withResourceContext(message: ChatMessage): ChatMessage {
+  const resources = (message.resources || []).filter((resource) => resource.text !== undefined);
+  if (resources.length === 0) {
+    return message;
+  }
+
+  const context = resources
+    .map((resource) => `Attached resource "${resource.name}" (${resource.uri}):\n${resource.text}`)
+    .join('\n\n');
+
+  return { ...message, content: `${context}\n\n${message.content}` };
+}
@@ -0,0 +1,160 @@
+/**
+ * Aggregates chat stream events into a single LLMResponse
+ * Used by the background's non-streaming path so it shares the streaming
+ * pipeline, and by the side panel for each answer in a model comparison
+ */
+
+import type { ChatMessage, LLMResponse, ToolCallRecord, TokenUsage } from '@/shared/types/llm';
+import type { StreamEvent } from '@/shared/types/messages';
+import { addUsage } from './usage';
+import { toToolResultMessage } from './toolResults';
+
+export interface ResponseCollector {
+  onEvent: (event: StreamEvent) => void;
+  getMessages: () => ChatMessage[]; // Transcript so far, including the message in progress
+  markToolAllowed: (toolCallId: string) => void; // Shows an approved call as running until it finishes
+  getResponse: (error?: string) => LLMResponse;
+}
+
+/**
+ * Create a collector for one turn
+ * The transcript is split the same way the side panel stores history: an
+ * assistant message with its tool calls, one `tool` message per result, then
+ * a new assistant message for the model's next response
+ */
+export function createResponseCollector(model: string): ResponseCollector {
+  const transcript: ChatMessage[] = [];
+  let current: ChatMessage = { role: 'assistant', content: '', timestamp: Date.now(), model };
+  let toolCalls: ToolCallRecord[] = [];
+  let toolRound: number | null = null;
+  let totalUsage: TokenUsage | undefined;
+  let currentModel = model;
+  let fallbackReason: string | undefined;
+  let finishReason: string | null = null;
+
+  const isFinished = (call: ToolCallRecord) => call.status === 'success' || call.status === 'error';
+
+  /**
+   * The current assistant message followed by the results of its finished tool calls
+   */
+  const currentMessages = (): ChatMessage[] => [
+    toolCalls.length > 0 ? { ...current, toolCalls } : { ...current },
+    ...toolCalls.filter(isFinished).map(toToolResultMessage),
+  ];
+
+  /**
+   * Close the current assistant message and store its tool results
+   * Calls still running or awaiting approval (e.g. after Stop) are marked as
+   * interrupted and get no result, so they are never replayed to the model
+   */
+  const flushMessage = () => {
+    const results = toolCalls.filter(isFinished).map(toToolResultMessage);
+    toolCalls = toolCalls.map((call) =>
+      isFinished(call) ? call : { ...call, status: 'error', error: 'Interrupted' }
+    );
+    transcript.push(toolCalls.length > 0 ? { ...current, toolCalls } : { ...current }, ...results);
+  };
+
+  const startNextAssistantMessage = () => {
+    flushMessage();
+    current = { role: 'assistant', content: '', timestamp: Date.now(), model: currentModel };
+    toolCalls = [];
+  };
+
+  const onEvent = (event: StreamEvent) => {
+    switch (event.type) {
+      case 'model_fallback':
+        currentModel = event.model;
+        fallbackReason = event.reason;
+        current = { ...current, model: event.model, fallbackReason: event.reason };
+        break;
+
+      case 'text_delta':
+        if (toolCalls.length > 0) {
+          startNextAssistantMessage();
+        }
+        current.content += event.text;
+        break;
+
+      case 'reasoning_delta':
+        if (toolCalls.length > 0) {
+          startNextAssistantMessage();
+        }
+        current.reasoning = (current.reasoning || '') + event.text;
+        break;
+
+      case 'usage':
+        current.usage = addUsage(current.usage, event.usage);
+        totalUsage = addUsage(totalUsage, event.usage);
+        break;
+
+      case 'tool_call_started':
+        if (toolCalls.length > 0 && event.round !== toolRound) {
+          startNextAssistantMessage();
+        }
+        toolRound = event.round;
+        toolCalls.push({
+          id: event.toolCallId,
+          serverId: event.serverId,
+          toolName: event.toolName,
+          arguments: event.arguments,
+          status: 'running',
+        });
+        break;
+
+      case 'tool_approval_requested':
+        toolCalls = toolCalls.map((call) =>
+          call.id === event.toolCallId ? { ...call, status: 'awaiting_approval' } : call
+        );
+        break;
+
+      case 'tool_call_finished':
+        toolCalls = toolCalls.map((call) =>
+          call.id === event.toolCallId
+            ? {
+                ...call,
+                status: event.error ? 'error' : 'success',
+                result: event.result,
+                error: event.error,
+                durationMs: event.durationMs,
+              }
+            : call
+        );
+        break;
+
+      case 'done':
+        finishReason = event.finishReason;
+        if (finishReason) {
+          current.finishReason = finishReason;
+        }
+        break;
+    }
+  };
+
+  const getResponse = (error?: string): LLMResponse => {
+    if (error) {
+      current.error = error;
+    }
+    flushMessage();
+
+    return {
+      content: current.content,
+      ...(current.reasoning && { reasoning: current.reasoning }),
+      toolCalls: transcript.flatMap((message) => message.toolCalls || []),
+      messages: transcript,
+      finishReason,
+      model: currentModel,
+      ...(totalUsage && { usage: totalUsage }),
+      ...(fallbackReason && { fallbackReason }),
+      ...(error && { error }),
+    };
+  };
+
+  const getMessages = (): ChatMessage[] => [...transcript, ...currentMessages()];
+
+  const markToolAllowed = (toolCallId: string) => {
+    toolCalls = toolCalls.map((call) => (call.id === toolCallId ? { ...call, status: 'running' } : call));
+  };
+
+  return { onEvent, getMessages, getResponse, markToolAllowed };
+}
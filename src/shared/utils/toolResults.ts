@@ -0,0 +1,111 @@
+import type { ChatMessage, ImageAttachment, ToolCallRecord } from '@/shared/types/llm';
+import type { MCPContent } from '@/shared/types/mcp';
+
+const CONTENT_TYPES = new Set(['text', 'image', 'audio', 'resource', 'resource_link']);
+
+/**
+ * Whether a tool result is an MCP content array (servers may return anything)
+ */
+export function isMCPContentArray(content: unknown): content is MCPContent[] {
+  return (
+    Array.isArray(content) &&
+    content.every((block) => block && typeof block === 'object' && CONTENT_TYPES.has(block.type))
+  );
+}
+
+/**
+ * Data URL for base64 content
+ */
+export function toDataURL(mimeType: string, data: string): string {
+  return `data:${mimeType};base64,${data}`;
+}
+
+/**
+ * Text of a tool result as sent to the model
+ * Images go separately as image parts (to models that accept images), so only
+ * a placeholder is left in the text
+ */
+export function getToolResultText(content: unknown): string {
+  if (!isMCPContentArray(content)) {
+    return JSON.stringify(content ?? null);
+  }
+
+  return content
+    .map((block) => {
+      switch (block.type) {
+        case 'text':
+          return block.text;
+        case 'image':
+          return `[Image: ${block.mimeType}]`;
+        case 'audio':
+          return `[Audio: ${block.mimeType}, not shown]`;
+        case 'resource':
+          if (block.resource.text !== undefined) {
+            return `Resource ${block.resource.uri}:\n${block.resource.text}`;
+          }
+          return block.resource.mimeType?.startsWith('image/')
+            ? `[Image: ${block.resource.uri}]`
+            : `[Resource ${block.resource.uri}${block.resource.mimeType ? ` (${block.resource.mimeType})` : ''}]`;
+        case 'resource_link':
+          return `[${block.name || block.uri}](${block.uri})${block.description ? ` - ${block.description}` : ''}`;
+      }
+    })
+    .join('\n\n');
+}
+
+/**
+ * Images in a tool result (image blocks and embedded image resources)
+ */
+export function getToolResultImages(content: unknown): ImageAttachment[] {
+  if (!isMCPContentArray(content)) {
+    return [];
+  }
+
+  return content.flatMap((block): ImageAttachment[] => {
+    if (block.type === 'image') {
+      return [{ data: toDataURL(block.mimeType, block.data), mimeType: block.mimeType }];
+    }
+    if (block.type === 'resource' && block.resource.blob && block.resource.mimeType?.startsWith('image/')) {
+      return [{
+        data: toDataURL(block.resource.mimeType, block.resource.blob),
+        mimeType: block.resource.mimeType,
+        name: block.resource.uri,
+      }];
+    }
+    return [];
+  });
+}
+
+/**
+ * The `tool` message that answers a finished tool call in the history
+ * Its images stay in the call's result rather than being stored twice;
+ * withToolResultImages adds them back for a request
+ */
+export function toToolResultMessage(call: ToolCallRecord): ChatMessage {
+  return {
+    role: 'tool',
+    content: call.error ? `Error: ${call.error}` : getToolResultText(call.result),
+    timestamp: Date.now(),
+    toolCallId: call.id,
+  };
+}
+
+/**
+ * History for a request, with each tool message carrying the images of its
+ * call's result when the model accepts images, and none otherwise
+ */
+export function withToolResultImages(history: ChatMessage[], sendImages: boolean): ChatMessage[] {
+  const calls = new Map<string, ToolCallRecord>();
+
+  return history.map((message) => {
+    message.toolCalls?.forEach((call) => calls.set(call.id, call));
+    if (message.role !== 'tool') {
+      return message;
+    }
+
+    // Sessions saved before images were left out of tool messages may still have them
+    const call = message.toolCallId ? calls.get(message.toolCallId) : undefined;
+    const images = sendImages && call && !call.error ? getToolResultImages(call.result) : [];
+    return { ...message, images: images.length > 0 ? images : undefined };
+  });
+}
@@ -0,0 +1,158 @@
+import {
+  LLMProvider,
+  type ChatMessage,
+  type ExtraUsage,
+  type LLMSettings,
+  type ModelPricing,
+  type TokenUsage,
+} from '@/shared/types/llm';
+import { fetchOpenRouterPricing } from './modelsFetch';
+
+export interface SessionUsage {
+  usage: TokenUsage;
+  costUsd: number;
+  hasUnpricedMessages: boolean; // Some messages used tokens but have no known price
+}
+
+// OpenRouter prices, fetched once per endpoint
+const openRouterPricingCache = new Map<string, Promise<Record<string, ModelPricing>>>();
+
+/**
+ * Add two usage counts together
+ */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+  return {
+    promptTokens: (total?.promptTokens || 0) + usage.promptTokens,
+    completionTokens: (total?.completionTokens || 0) + usage.completionTokens,
+    totalTokens: (total?.totalTokens || 0) + usage.totalTokens,
+  };
+}
+
+/**
+ * Add one request to a turn's extra usage
+ * @param costUsd Cost of the request, or undefined when its price is unknown
+ */
+export function addExtraUsage(
+  total: ExtraUsage | undefined,
+  usage: TokenUsage,
+  costUsd: number | undefined
+): ExtraUsage {
+  return {
+    usage: addUsage(total?.usage, usage),
+    costUsd: (total?.costUsd || 0) + (costUsd || 0),
+    hasUnpricedRequests: total?.hasUnpricedRequests || costUsd === undefined,
+  };
+}
+
+/**
+ * Look up the price of a model
+ * User-entered prices win; OpenRouter prices come from its /models metadata
+ * @returns Pricing, or null when the price is unknown
+ */
+export async function getModelPricing(
+  settings: LLMSettings,
+  model: string
+): Promise<ModelPricing | null> {
+  const userPricing = settings.modelPricing?.[model];
+  if (userPricing) {
+    return userPricing;
+  }
+
+  if (settings.provider !== LLMProvider.OPENROUTER) {
+    return null;
+  }
+
+  let pricing = openRouterPricingCache.get(settings.apiEndpoint);
+  if (!pricing) {
+    pricing = fetchOpenRouterPricing(settings.apiEndpoint, settings.apiKey);
+    openRouterPricingCache.set(settings.apiEndpoint, pricing);
+  }
+
+  try {
+    return (await pricing)[model] || null;
+  } catch (error) {
+    // Try again next time
+    openRouterPricingCache.delete(settings.apiEndpoint);
+    console.warn('Could not load OpenRouter pricing:', error);
+    return null;
+  }
+}
+
+/**
+ * Estimate the cost of a request in USD
+ */
+export function estimateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  return (
+    usage.promptTokens * pricing.promptPerMillion +
+    usage.completionTokens * pricing.completionPerMillion
+  ) / 1e6;
+}
+
+/**
+ * Roll up token usage and cost over a session's messages
+ * Includes every answer of a comparison still waiting to be picked
+ */
+export function getSessionUsage(messages: ChatMessage[]): SessionUsage {
+  let usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let costUsd = 0;
+  let hasUnpricedMessages = false;
+
+  for (const msg of messages) {
+    if (msg.comparison) {
+      const answers = getSessionUsage(msg.comparison.flatMap((answer) => answer.messages));
+      usage = addUsage(usage, answers.usage);
+      costUsd += answers.costUsd;
+      hasUnpricedMessages ||= answers.hasUnpricedMessages;
+    }
+
+    if (msg.extraUsage) {
+      usage = addUsage(usage, msg.extraUsage.usage);
+      costUsd += msg.extraUsage.costUsd;
+      hasUnpricedMessages ||= !!msg.extraUsage.hasUnpricedRequests;
+    }
+
+    if (!msg.usage) continue;
+
+    usage = addUsage(usage, msg.usage);
+    if (msg.costUsd !== undefined) {
+      costUsd += msg.costUsd;
+    } else {
+      hasUnpricedMessages = true;
+    }
+  }
+
+  return { usage, costUsd, hasUnpricedMessages };
+}
+
+/**
+ * Add messages dropped from a chat (compared answers that weren't picked) to
+ * a turn's extra usage, so the chat total still counts what they cost
+ */
+export function addDiscardedUsage(total: ExtraUsage | undefined, messages: ChatMessage[]): ExtraUsage | undefined {
+  const discarded = getSessionUsage(messages);
+  if (discarded.usage.totalTokens === 0) {
+    return total;
+  }
+
+  return {
+    usage: addUsage(total?.usage, discarded.usage),
+    costUsd: (total?.costUsd || 0) + discarded.costUsd,
+    hasUnpricedRequests: total?.hasUnpricedRequests || discarded.hasUnpricedMessages,
+  };
+}
+
+/**
+ * Format a token count compactly (e.g. 950, 12.3k, 1.2M)
+ */
+export function formatTokenCount(tokens: number): string {
+  if (tokens >= 1e6) return `${(tokens / 1e6).toFixed(1)}M`;
+  if (tokens >= 1e3) return `${(tokens / 1e3).toFixed(1)}k`;
+  return String(tokens);
+}
+
+/**
+ * Format a USD cost, keeping precision for small amounts
+ */
+export function formatCost(costUsd: number): string {
+  return costUsd >= 0.01 ? `$${costUsd.toFixed(2)}` : `$${costUsd.toFixed(4)}`;
+}
@@ -3,6 +3,7 @@ import { ChatHeader } from './components/Chat/ChatHeader';
 import { ChatInterface } from './components/Chat/ChatInterface';
 import { ChatInput } from './components/Chat/ChatInput';
 import { ChatHistory } from './components/Chat/ChatHistory';
+import { SamplingRequestDialog } from './components/Chat/SamplingRequestDialog';
 import { MarkdownDownload } from './components/Markdown/MarkdownDownload';
 import { SettingsPanel } from './components/Settings/SettingsPanel';
 import { Spinner } from './components/common/Spinner';
@@ -10,7 +11,9 @@ import { usePageContent } from './hooks/usePageContent';
 import { useSettings } from './hooks/useSettings';
 import { useChat } from './hooks/useChat';
 import { useChatStore } from './store/chatStore';
+import { useSettingsStore } from './store/settingsStore';
 import { getCurrentTab } from '@/shared/utils/chromeApi';
+import { getSessionUsage } from '@/shared/utils/usage';
 
 function App() {
   const [showSettings, setShowSettings] = useState(false);
@@ -19,7 +22,8 @@ function App() {
   const [currentTabUrl, setCurrentTabUrl] = useState<string>('');
   const { content, isLoading: isExtracting, error, extractContent, clearContent } = usePageContent();
   const { loadSettings } = useSettings();
-  const { createSession, getCurrentSession, setContent, getSessionByTabId, switchSession, clearCurrentSession } = useChatStore();
+  const { createSession, getCurrentSession, setContent, getSessionByTabId, switchSession, clearCurrentSession, setSessionPreset, setSessionProfile } = useChatStore();
+  const { settings } = useSettingsStore();
   const { sendMessage } = useChat();
 
   const currentSession = getCurrentSession();
@@ -188,6 +192,13 @@ function App() {
     <div className="h-screen flex flex-col bg-white">
       <ChatHeader
         title={getTitle()}
+        usage={currentSession ? getSessionUsage(currentSession.messages) : undefined}
+        presets={settings.parameterPresets}
+        presetId={currentSession?.presetId}
+        onPresetChange={currentSession ? setSessionPreset : undefined}
+        profiles={settings.profiles}
+        profileId={currentSession?.profileId}
+        onProfileChange={currentSession ? setSessionProfile : undefined}
         onSettingsClick={() => setShowSettings(true)}
         onHistoryClick={() => setShowHistory(true)}
         onNewChatClick={handleNewChat}
@@ -254,13 +265,13 @@ function App() {
               </div>
               {/* Show input even without session */}
               <ChatInput
-                onSend={(message, images) => {
+                onSend={(message, images, resources) => {
                   // If no session, create one first (with or without content)
                   if (!currentSession) {
                     createSession(content || null, currentTabId || undefined);
                   }
                   // Send the message
-                  sendMessage(message, images);
+                  sendMessage(message, images, resources);
                 }}
                 disabled={isExtracting}
               />
@@ -273,6 +284,7 @@ function App() {
 
       {showSettings && <SettingsPanel onClose={() => setShowSettings(false)} />}
       {showHistory && <ChatHistory onClose={() => setShowHistory(false)} />}
+      <SamplingRequestDialog />
     </div>
   );
 }
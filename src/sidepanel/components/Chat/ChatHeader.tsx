@@ -1,5 +1,15 @@
+import { formatCost, formatTokenCount, type SessionUsage } from '@/shared/utils/usage';
+import type { ParameterPreset, ProviderProfile } from '@/shared/types/llm';
+
 interface ChatHeaderProps {
   title: string;
+  usage?: SessionUsage;
+  presets?: ParameterPreset[];
+  presetId?: string;
+  onPresetChange?: (presetId: string | null) => void;
+  profiles?: ProviderProfile[];
+  profileId?: string;
+  onProfileChange?: (profileId: string | null) => void;
   onSettingsClick: () => void;
   onRefreshClick: () => void;
   onHistoryClick: () => void;
@@ -9,6 +19,13 @@ interface ChatHeaderProps {
 
 export function ChatHeader({
   title,
+  usage,
+  presets = [],
+  presetId,
+  onPresetChange,
+  profiles = [],
+  profileId,
+  onProfileChange,
   onSettingsClick,
   onRefreshClick,
   onHistoryClick,
@@ -20,7 +37,51 @@ export function ChatHeader({
       <div className="flex items-center justify-between">
         <div className="flex-1 min-w-0">
           <h1 className="text-lg font-semibold truncate">{title}</h1>
-          <p className="text-sm text-indigo-200">Chat about this page</p>
+          <p className="text-sm text-indigo-200">
+            Chat about this page
+            {usage && usage.usage.totalTokens > 0 && (
+              <span
+                title={`Prompt: ${usage.usage.promptTokens} tokens\nCompletion: ${usage.usage.completionTokens} tokens${
+                  usage.hasUnpricedMessages ? '\nSome messages have no known price' : ''
+                }`}
+              >
+                {' · '}{formatTokenCount(usage.usage.totalTokens)} tokens
+                {usage.costUsd > 0 && ` · ${usage.hasUnpricedMessages ? '≥' : ''}${formatCost(usage.costUsd)}`}
+              </span>
+            )}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {onProfileChange && profiles.length > 0 && (
+              <select
+                value={profileId ?? ''}
+                onChange={(e) => onProfileChange(e.target.value || null)}
+                className="mt-1 max-w-full text-xs bg-indigo-700 text-white rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-indigo-300"
+                title="AI service for this chat"
+              >
+                <option value="">Default service</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {onPresetChange && presets.length > 0 && (
+              <select
+                value={presetId ?? ''}
+                onChange={(e) => onPresetChange(e.target.value || null)}
+                className="mt-1 max-w-full text-xs bg-indigo-700 text-white rounded px-1 py-0.5 focus:outline-none focus:ring-1 focus:ring-indigo-300"
+                title="Generation parameters for this chat"
+              >
+                <option value="">Default parameters</option>
+                {presets.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         </div>
         <div className="flex gap-2 ml-4">
           <button
@@ -76,7 +76,8 @@ interface SessionItemProps {
 }
 
 function SessionItem({ session, isActive, onClick, onDelete }: SessionItemProps) {
-  const messageCount = session.messages.length;
+  // Tool results are stored as messages but aren't shown as chat bubbles
+  const messageCount = session.messages.filter((msg) => msg.role !== 'tool').length;
   const lastUpdate = new Date(session.updatedAt).toLocaleString();
 
   return (
@@ -1,21 +1,73 @@
 import { useState, KeyboardEvent, ClipboardEvent, useRef, useEffect } from 'react';
 import { Button } from '../common/Button';
-import type { ImageAttachment } from '@/shared/types/llm';
+import { ResourcePicker, filterResources } from './ResourcePicker';
+import { PromptArgumentsForm, PromptPicker, filterPrompts } from './PromptPicker';
+import { useMCPCatalog, type ServerPrompt, type ServerResource } from '../../hooks/useMCPCatalog';
+import { useSettingsStore } from '../../store/settingsStore';
+import { toResourceAttachment } from '@/shared/utils/resources';
+import { toPromptChatMessages } from '@/shared/utils/prompts';
+import type { ChatMessage, ImageAttachment, ResourceAttachment } from '@/shared/types/llm';
 
 interface ChatInputProps {
-  onSend: (message: string, images?: ImageAttachment[]) => void;
+  onSend: (message: string, images?: ImageAttachment[], resources?: ResourceAttachment[]) => void;
+  onPromptMessages?: (messages: ChatMessage[]) => void; // Enables MCP prompts as `/` commands
+  onStop?: () => void;
   disabled?: boolean;
+  isGenerating?: boolean;
+}
+
+/**
+ * A resource picked for the next message, read in the background
+ */
+interface PendingResource {
+  serverId: string;
+  uri: string;
+  name: string;
+  status: 'loading' | 'ready' | 'error';
+  resource?: ResourceAttachment;
+  images: ImageAttachment[]; // Image contents, sent along with the message's images
+  error?: string;
 }
 
 const MIN_ROWS = 2;
 const MAX_ROWS = 10;
 
-export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
+// An `@` at the start or after whitespace, followed by the search so far
+const MENTION_PATTERN = /(^|\s)@([^\s@]*)$/;
+
+// A `/` command is the whole message: a slash and the prompt name so far
+const COMMAND_PATTERN = /^\/(\S*)$/;
+
+export function ChatInput({ onSend, onPromptMessages, onStop, disabled = false, isGenerating = false }: ChatInputProps) {
   const [message, setMessage] = useState('');
   const [images, setImages] = useState<ImageAttachment[]>([]);
+  const [attachedResources, setAttachedResources] = useState<PendingResource[]>([]);
+  const [mention, setMention] = useState<{ start: number; query: string } | null>(null);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const [isBrowsing, setIsBrowsing] = useState(false);
+  const [browseQuery, setBrowseQuery] = useState('');
+  const [command, setCommand] = useState<string | null>(null);
+  const [promptForm, setPromptForm] = useState<{ prompt: ServerPrompt; isRunning?: boolean; error?: string } | null>(
+    null
+  );
   const [rows, setRows] = useState(MIN_ROWS);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { settings } = useSettingsStore();
+  const {
+    resources,
+    prompts,
+    isLoading: isLoadingCatalog,
+    readResource,
+    getPrompt,
+  } = useMCPCatalog(mention !== null || isBrowsing || command !== null);
+
+  const hasMCPServers = (settings.mcp?.servers || []).some((server) => server.enabled);
+  const mentionMatches = mention ? filterResources(resources, mention.query) : [];
+  const commandMatches = command !== null ? filterPrompts(prompts, command) : [];
+  const readyResources = attachedResources.filter((r) => r.status === 'ready');
+  const isReadingResources = attachedResources.some((r) => r.status === 'loading');
+  const hasContent = !!message.trim() || images.length > 0 || readyResources.length > 0;
 
   // Auto-grow textarea based on content
   useEffect(() => {
@@ -34,15 +86,138 @@ export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
   }, [message]);
 
   const handleSend = () => {
-    if ((message.trim() || images.length > 0) && !disabled) {
-      onSend(message, images.length > 0 ? images : undefined);
+    if (hasContent && !isReadingResources && !disabled) {
+      const allImages = [...images, ...readyResources.flatMap((r) => r.images)];
+      onSend(
+        message,
+        allImages.length > 0 ? allImages : undefined,
+        readyResources.length > 0 ? readyResources.map((r) => r.resource!) : undefined
+      );
       setMessage('');
       setImages([]);
+      setAttachedResources([]);
+      setMention(null);
       setRows(MIN_ROWS); // Reset to minimum rows after sending
     }
   };
 
+  /**
+   * Track a `/` command or an `@` mention being typed right before the cursor
+   */
+  const handleMessageChange = (value: string, cursor: number) => {
+    setMessage(value);
+
+    const commandMatch = hasMCPServers && onPromptMessages ? COMMAND_PATTERN.exec(value) : null;
+    const mentionMatch = hasMCPServers && !commandMatch ? MENTION_PATTERN.exec(value.slice(0, cursor)) : null;
+
+    setCommand(commandMatch ? commandMatch[1] : null);
+    setMention(mentionMatch ? { start: cursor - mentionMatch[2].length - 1, query: mentionMatch[2] } : null);
+    if (commandMatch || mentionMatch) {
+      setHighlightedIndex(0);
+    }
+  };
+
+  /**
+   * Fill in a prompt on its server and add its messages to the conversation
+   */
+  const runPrompt = async (prompt: ServerPrompt, args: Record<string, string>) => {
+    setPromptForm({ prompt, isRunning: true });
+
+    try {
+      const promptMessages = await getPrompt(prompt.serverId, prompt.name, args);
+      onPromptMessages?.(toPromptChatMessages(promptMessages));
+      setMessage('');
+      setPromptForm(null);
+    } catch (error) {
+      console.error('Error getting MCP prompt:', error);
+      setPromptForm({ prompt, error: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  /**
+   * Run a picked prompt, asking for its arguments first if it has any
+   */
+  const selectPrompt = (prompt: ServerPrompt) => {
+    setCommand(null);
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setPromptForm({ prompt });
+    } else {
+      runPrompt(prompt, {});
+    }
+  };
+
+  /**
+   * Attach a resource and read its contents
+   * A pick from the `@` list also removes the mention from the message
+   */
+  const attachResource = async (resource: ServerResource) => {
+    if (mention) {
+      const cursor = mention.start + mention.query.length + 1;
+      setMessage(message.slice(0, mention.start) + message.slice(cursor));
+      setMention(null);
+    }
+    setIsBrowsing(false);
+
+    const isSame = (r: PendingResource) => r.serverId === resource.serverId && r.uri === resource.uri;
+    if (attachedResources.some(isSame)) return;
+
+    setAttachedResources((prev) => [
+      ...prev,
+      { serverId: resource.serverId, uri: resource.uri, name: resource.name, status: 'loading', images: [] },
+    ]);
+
+    try {
+      const contents = await readResource(resource.serverId, resource.uri);
+      const attachment = toResourceAttachment(resource.serverId, resource, contents);
+      setAttachedResources((prev) =>
+        prev.map((r) => (isSame(r) ? { ...r, status: 'ready', ...attachment } : r))
+      );
+    } catch (error) {
+      console.error('Error reading MCP resource:', error);
+      setAttachedResources((prev) =>
+        prev.map((r) =>
+          isSame(r) ? { ...r, status: 'error', error: error instanceof Error ? error.message : String(error) } : r
+        )
+      );
+    }
+  };
+
+  const removeResource = (index: number) => {
+    setAttachedResources((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keyboard selection in the open `/` or `@` list
+    const picker = command !== null
+      ? { count: commandMatches.length, select: (i: number) => selectPrompt(commandMatches[i]) }
+      : mention
+      ? { count: mentionMatches.length, select: (i: number) => attachResource(mentionMatches[i]) }
+      : null;
+
+    if (picker) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCommand(null);
+        setMention(null);
+        return;
+      }
+
+      if (picker.count > 0) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlightedIndex((highlightedIndex + step + picker.count) % picker.count);
+          return;
+        }
+
+        if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          picker.select(Math.min(highlightedIndex, picker.count - 1));
+          return;
+        }
+      }
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -111,7 +286,92 @@ export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
   };
 
   return (
-    <div className="border-t border-gray-200 bg-white p-4">
+    <div className="relative border-t border-gray-200 bg-white p-4">
+      {/* Resource list for an `@` mention or the resource browser */}
+      {/* Prompt list for a `/` command, then the prompt's arguments */}
+      {(command !== null || promptForm) && (
+        <div className="absolute bottom-full left-4 right-4 mb-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+          {promptForm ? (
+            <PromptArgumentsForm
+              key={`${promptForm.prompt.serverId}:${promptForm.prompt.name}`}
+              prompt={promptForm.prompt}
+              isRunning={promptForm.isRunning}
+              error={promptForm.error}
+              onRun={(args) => runPrompt(promptForm.prompt, args)}
+              onCancel={() => setPromptForm(null)}
+            />
+          ) : (
+            <PromptPicker
+              prompts={commandMatches}
+              isLoading={isLoadingCatalog}
+              highlightedIndex={highlightedIndex}
+              onSelect={selectPrompt}
+              onHighlight={setHighlightedIndex}
+            />
+          )}
+        </div>
+      )}
+
+      {(mention || isBrowsing) && (
+        <div className="absolute bottom-full left-4 right-4 mb-1 bg-white border border-gray-200 rounded-lg shadow-lg z-10">
+          {isBrowsing && (
+            <div className="flex items-center gap-2 p-2 border-b border-gray-200">
+              <input
+                type="text"
+                value={browseQuery}
+                onChange={(e) => setBrowseQuery(e.target.value)}
+                placeholder="Search MCP resources..."
+                className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                autoFocus
+              />
+              <button
+                type="button"
+                onClick={() => setIsBrowsing(false)}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Close
+              </button>
+            </div>
+          )}
+          <ResourcePicker
+            resources={mention ? mentionMatches : filterResources(resources, browseQuery)}
+            isLoading={isLoadingCatalog}
+            highlightedIndex={mention ? highlightedIndex : undefined}
+            onSelect={attachResource}
+            onHighlight={setHighlightedIndex}
+          />
+        </div>
+      )}
+
+      {/* Attached resources */}
+      {attachedResources.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-2">
+          {attachedResources.map((resource, index) => (
+            <span
+              key={`${resource.serverId}:${resource.uri}`}
+              className={`inline-flex items-center gap-1 max-w-full px-2 py-1 rounded text-xs border ${
+                resource.status === 'error'
+                  ? 'bg-red-50 border-red-200 text-red-700'
+                  : 'bg-indigo-50 border-indigo-200 text-indigo-800'
+              }`}
+              title={resource.error || resource.uri}
+            >
+              <span className="truncate">@{resource.name}</span>
+              {resource.status === 'loading' && <span className="text-gray-500">reading...</span>}
+              {resource.status === 'error' && <span>failed</span>}
+              <button
+                type="button"
+                onClick={() => removeResource(index)}
+                className="text-gray-500 hover:text-red-600"
+                title="Remove resource"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Image previews */}
       {images.length > 0 && (
         <div className="mb-3 flex flex-wrap gap-2">
@@ -153,10 +413,29 @@ export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
           </svg>
         </button>
+        {hasMCPServers && (
+          <button
+            onClick={() => {
+              setMention(null);
+              setIsBrowsing(!isBrowsing);
+            }}
+            disabled={disabled}
+            className="px-3 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-lg disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Attach MCP resource"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13" />
+            </svg>
+          </button>
+        )}
         <textarea
           ref={textareaRef}
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
+          onChange={(e) => handleMessageChange(e.target.value, e.target.selectionStart)}
+          onBlur={() => {
+            setMention(null);
+            setCommand(null);
+          }}
           onKeyDown={handleKeyDown}
           onPaste={handlePaste}
           placeholder="Ask a question or paste an image..."
@@ -165,16 +444,29 @@ export function ChatInput({ onSend, disabled = false }: ChatInputProps) {
           disabled={disabled}
           style={{ maxHeight: `${MAX_ROWS * 24}px` }}
         />
-        <Button
-          onClick={handleSend}
-          disabled={disabled || (!message.trim() && images.length === 0)}
-          className="self-end"
-        >
-          Send
-        </Button>
+        {isGenerating && onStop ? (
+          <Button
+            variant="danger"
+            onClick={onStop}
+            className="self-end"
+            title="Stop generating"
+          >
+            Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={handleSend}
+            disabled={disabled || !hasContent || isReadingResources}
+            className="self-end"
+          >
+            Send
+          </Button>
+        )}
       </div>
       <p className="text-xs text-gray-500 mt-2">
         Press Enter to send, Shift+Enter for new line. Paste or click 📷 to add images.
+        {hasMCPServers && ' Type @ to attach an MCP resource.'}
+        {hasMCPServers && onPromptMessages && ' Type / for MCP prompts.'}
       </p>
     </div>
   );
@@ -1,19 +1,32 @@
 import { useEffect, useRef } from 'react';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
+import { ComparisonView } from './ComparisonView';
+import { CompareBar } from './CompareBar';
 import { Spinner } from '../common/Spinner';
 import { useChat } from '../../hooks/useChat';
 import { useChatStore } from '../../store/chatStore';
+import { useSettingsStore } from '../../store/settingsStore';
+import { getSessionSettings } from '@/shared/utils/profiles';
 
 export function ChatInterface() {
-  const { sendMessage, retryLastMessage } = useChat();
-  const { getCurrentSession, isLoading, error } = useChatStore();
+  const { sendMessage, sendPromptMessages, retryLastMessage, stopGeneration, respondToToolApproval } = useChat();
+  const { getCurrentSession, isLoading, error, streamStatus, setCompareTargets, pickComparisonAnswer } = useChatStore();
+  const { settings } = useSettingsStore();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const prevMessageCountRef = useRef(0);
 
   const currentSession = getCurrentSession();
   const messages = currentSession?.messages || [];
+  // The conversation waits until one of the compared answers is picked
+  const hasPendingComparison = messages.some((msg) => msg.comparison);
+
+  // The last turn may end with hidden tool results, so find its last assistant message
+  let lastAssistantIndex = messages.length - 1;
+  while (lastAssistantIndex >= 0 && messages[lastAssistantIndex].role === 'tool') {
+    lastAssistantIndex--;
+  }
 
   // Auto-scroll to bottom when messages change
   useEffect(() => {
@@ -39,7 +52,7 @@ export function ChatInterface() {
 
   const handleRetry = (index: number) => {
     // Only allow retrying the last message
-    if (index === messages.length - 1) {
+    if (index === lastAssistantIndex) {
       retryLastMessage();
     }
   };
@@ -56,8 +69,21 @@ export function ChatInterface() {
         )}
 
         {messages.map((msg, index) => {
+          if (msg.comparison) {
+            return (
+              <ComparisonView
+                key={index}
+                answers={msg.comparison}
+                profiles={settings.profiles}
+                isStreaming={isLoading}
+                onPick={(answerIndex) => currentSession && pickComparisonAnswer(currentSession.id, index, answerIndex)}
+                onToolApproval={respondToToolApproval}
+              />
+            );
+          }
+
           const isLastAssistantMessage =
-            index === messages.length - 1 && msg.role === 'assistant';
+            index === lastAssistantIndex && msg.role === 'assistant';
           const showRetry = isLastAssistantMessage && (!!msg.error || !isLoading);
 
           return (
@@ -66,14 +92,17 @@ export function ChatInterface() {
               message={msg}
               onRetry={() => handleRetry(index)}
               showRetry={showRetry}
+              isStreaming={isLoading && index === messages.length - 1}
+              onToolApproval={respondToToolApproval}
             />
           );
         })}
 
         {isLoading && (
           <div className="flex justify-start mb-4">
-            <div className="bg-gray-100 rounded-lg px-4 py-2 border border-gray-200">
+            <div className="bg-gray-100 rounded-lg px-4 py-2 border border-gray-200 flex items-center gap-2">
               <Spinner size="sm" />
+              {streamStatus && <span className="text-xs text-gray-600">{streamStatus}</span>}
             </div>
           </div>
         )}
@@ -88,7 +117,26 @@ export function ChatInterface() {
       </div>
 
       {/* Input area */}
-      <ChatInput onSend={sendMessage} disabled={isLoading} />
+      {currentSession && (
+        <CompareBar
+          targets={currentSession.compareTargets}
+          profiles={settings.profiles}
+          defaultTarget={{
+            profileId: currentSession.profileId,
+            model: getSessionSettings(settings, currentSession).model,
+          }}
+          defaultModels={settings.models}
+          onChange={setCompareTargets}
+          disabled={isLoading}
+        />
+      )}
+      <ChatInput
+        onSend={sendMessage}
+        onPromptMessages={sendPromptMessages}
+        onStop={stopGeneration}
+        disabled={isLoading || hasPendingComparison}
+        isGenerating={isLoading}
+      />
     </div>
   );
 }
@@ -2,23 +2,34 @@ import { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeHighlight from 'rehype-highlight';
-import type { ChatMessage as ChatMessageType } from '@/shared/types/llm';
+import type { ChatMessage as ChatMessageType, ToolCallRecord } from '@/shared/types/llm';
+import type { ToolApprovalDecision } from '@/shared/types/mcp';
+import { ToolCallList } from './ToolCallList';
+import { formatCost, formatTokenCount } from '@/shared/utils/usage';
 import 'highlight.js/styles/github-dark.css';
 
 interface ChatMessageProps {
   message: ChatMessageType;
   onRetry?: () => void;
   showRetry?: boolean;
+  isStreaming?: boolean;
+  onToolApproval?: (call: ToolCallRecord, decision: ToolApprovalDecision) => void;
 }
 
-export function ChatMessage({ message, onRetry, showRetry }: ChatMessageProps) {
+export function ChatMessage({ message, onRetry, showRetry, isStreaming, onToolApproval }: ChatMessageProps) {
   const [copied, setCopied] = useState(false);
+  const [reasoningOpen, setReasoningOpen] = useState<boolean | null>(null);
   const isUser = message.role === 'user';
   const isSystem = message.role === 'system';
+  const isTool = message.role === 'tool';
   const hasError = !!message.error;
 
-  // Don't display system messages
-  if (isSystem) {
+  // Thinking stays expanded while the model is still reasoning, unless toggled
+  const isReasoning = !!isStreaming && !message.content;
+  const showReasoning = reasoningOpen ?? isReasoning;
+
+  // Don't display system messages or tool results (shown with the assistant's tool calls)
+  if (isSystem || isTool) {
     return null;
   }
 
@@ -57,6 +68,21 @@ export function ChatMessage({ message, onRetry, showRetry }: ChatMessageProps) {
           </div>
         )}
 
+        {/* Attached MCP resources */}
+        {message.resources && message.resources.length > 0 && (
+          <div className="mb-3 flex flex-wrap gap-2">
+            {message.resources.map((resource) => (
+              <span
+                key={`${resource.serverId}:${resource.uri}`}
+                className="px-2 py-1 rounded text-xs bg-indigo-50 border border-indigo-200 text-indigo-800 truncate max-w-full"
+                title={resource.uri}
+              >
+                @{resource.name}
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Images (if any) */}
         {message.images && message.images.length > 0 && (
           <div className="mb-3 flex flex-wrap gap-2">
@@ -71,6 +97,36 @@ export function ChatMessage({ message, onRetry, showRetry }: ChatMessageProps) {
           </div>
         )}
 
+        {/* Reasoning / thinking */}
+        {message.reasoning && (
+          <div className="mb-3 border-l-2 border-gray-300 pl-3">
+            <button
+              onClick={() => setReasoningOpen(!showReasoning)}
+              className="flex items-center text-xs font-medium text-gray-500 hover:text-gray-700"
+            >
+              <svg
+                className={`w-3 h-3 mr-1 transition-transform ${showReasoning ? 'rotate-90' : ''}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+              {isReasoning ? 'Thinking...' : 'Thinking'}
+            </button>
+            {showReasoning && (
+              <div className="mt-1 text-xs text-gray-500 whitespace-pre-wrap max-h-64 overflow-y-auto">
+                {message.reasoning}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Tool calls made while generating this message */}
+        {message.toolCalls && message.toolCalls.length > 0 && (
+          <ToolCallList toolCalls={message.toolCalls} onApproval={onToolApproval} />
+        )}
+
         {/* Message Content */}
         <div
           className={`text-sm prose prose-sm max-w-none overflow-x-auto ${
@@ -128,6 +184,32 @@ export function ChatMessage({ message, onRetry, showRetry }: ChatMessageProps) {
           </ReactMarkdown>
         </div>
 
+        {/* Long page summary notice */}
+        {message.pageSummarySections !== undefined && (
+          <div className="mt-2 text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded px-2 py-1">
+            The page was too long to send in full; answered from summaries of its {message.pageSummarySections} sections.
+          </div>
+        )}
+
+        {/* Context trim notice */}
+        {message.contextTrim && (
+          <div className="mt-2 text-xs text-gray-600 bg-gray-50 border border-gray-200 rounded px-2 py-1">
+            Trimmed to fit the {formatTokenCount(message.contextTrim.contextWindow)}-token context window:
+            {message.contextTrim.droppedMessages > 0 &&
+              ` ${message.contextTrim.droppedMessages} earlier messages left out`}
+            {message.contextTrim.droppedMessages > 0 && message.contextTrim.pageCharsKept !== undefined && ','}
+            {message.contextTrim.pageCharsKept !== undefined && message.contextTrim.pageCharsTotal &&
+              ` page content cut to ${Math.round((message.contextTrim.pageCharsKept / message.contextTrim.pageCharsTotal) * 100)}%`}
+          </div>
+        )}
+
+        {/* Tool round limit notice */}
+        {message.finishReason === 'tool_round_limit' && (
+          <div className="mt-2 text-xs text-yellow-800 bg-yellow-50 border border-yellow-200 rounded px-2 py-1">
+            Stopped after reaching the tool round limit. The answer may be incomplete; raise "Max tool rounds" in the MCP settings to allow longer tool chains.
+          </div>
+        )}
+
         {/* Footer with timestamp and actions */}
         <div className="flex items-center justify-between mt-2">
           <div
@@ -136,6 +218,31 @@ export function ChatMessage({ message, onRetry, showRetry }: ChatMessageProps) {
             }`}
           >
             {new Date(message.timestamp).toLocaleTimeString()}
+            {message.role === 'assistant' && message.usage && (
+              <span
+                className="ml-2"
+                title={`${message.model || 'Unknown model'}\nPrompt: ${message.usage.promptTokens} tokens\nCompletion: ${message.usage.completionTokens} tokens${
+                  message.extraUsage ? `\nOther requests for this answer: ${message.extraUsage.usage.totalTokens} tokens` : ''
+                }`}
+              >
+                · {formatTokenCount(message.usage.totalTokens)} tokens
+                {message.costUsd !== undefined && ` · ${formatCost(message.costUsd)}`}
+                {message.latencyMs !== undefined && ` · ${(message.latencyMs / 1000).toFixed(1)}s`}
+              </span>
+            )}
+            {message.fallbackReason && (
+              <span
+                className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded bg-blue-100 text-blue-800"
+                title={`Primary model failed: ${message.fallbackReason}`}
+              >
+                Answered by {message.model}
+              </span>
+            )}
+            {message.interrupted && (
+              <span className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded bg-yellow-100 text-yellow-800">
+                Interrupted
+              </span>
+            )}
           </div>
 
           {/* Action buttons */}
@@ -0,0 +1,135 @@
+import type { CompareTarget, ProviderProfile } from '@/shared/types/llm';
+import { MAX_COMPARE_MODELS } from '@/shared/constants';
+
+interface CompareBarProps {
+  targets?: CompareTarget[];
+  profiles?: ProviderProfile[];
+  defaultTarget: CompareTarget; // First model when compare mode is turned on
+  defaultModels?: string[]; // Models loaded for the main service, suggested when no profile is picked
+  onChange: (targets: CompareTarget[] | null) => void;
+  disabled?: boolean;
+}
+
+const fieldClassName =
+  'px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-indigo-500';
+
+/**
+ * Turns compare mode on or off and picks the models each message goes to
+ */
+export function CompareBar({
+  targets,
+  profiles = [],
+  defaultTarget,
+  defaultModels = [],
+  onChange,
+  disabled = false,
+}: CompareBarProps) {
+  const updateTarget = (index: number, updates: Partial<CompareTarget>) => {
+    onChange((targets || []).map((target, i) => (i === index ? { ...target, ...updates } : target)));
+  };
+
+  const getProfileModel = (profileId?: string) =>
+    profiles.find((p) => p.id === profileId)?.model ?? '';
+
+  // Each row suggests the models loaded for its own service
+  const getSuggestedModels = (profileId?: string) =>
+    profileId ? profiles.find((p) => p.id === profileId)?.models ?? [] : defaultModels;
+
+  const hasMissingModel = targets?.some((target) => !target.model.trim());
+
+  if (!targets) {
+    return (
+      <div className="px-4 pt-2">
+        <button
+          type="button"
+          onClick={() => onChange([defaultTarget, { ...defaultTarget, model: '' }])}
+          disabled={disabled}
+          className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+        >
+          Compare models
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 pt-2 space-y-1 border-t border-gray-200">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-700">Each message goes to all of these models</span>
+        <button
+          type="button"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+        >
+          Stop comparing
+        </button>
+      </div>
+
+      {targets.map((target, index) => (
+        <div key={index} className="flex items-center gap-1">
+          {profiles.length > 0 && (
+            <select
+              value={target.profileId ?? ''}
+              onChange={(e) => {
+                const profileId = e.target.value || undefined;
+                updateTarget(index, { profileId, model: profileId ? getProfileModel(profileId) : target.model });
+              }}
+              disabled={disabled}
+              className={`${fieldClassName} max-w-[40%]`}
+            >
+              <option value="">Default service</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
+          )}
+          <input
+            type="text"
+            value={target.model}
+            onChange={(e) => updateTarget(index, { model: e.target.value })}
+            placeholder="Choose a model"
+            list={`compare-models-${index}`}
+            disabled={disabled}
+            className={`${fieldClassName} flex-1 min-w-0 ${target.model.trim() ? '' : 'border-red-300'}`}
+          />
+          <datalist id={`compare-models-${index}`}>
+            {getSuggestedModels(target.profileId).map((model) => (
+              <option key={model} value={model} />
+            ))}
+          </datalist>
+          {targets.length > 2 && (
+            <button
+              type="button"
+              onClick={() => onChange(targets.filter((_, i) => i !== index))}
+              disabled={disabled}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title="Remove model"
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
+        </div>
+      ))}
+
+      {hasMissingModel && (
+        <p className="text-xs text-red-600">Enter a model for each row before sending.</p>
+      )}
+
+      {targets.length < MAX_COMPARE_MODELS && (
+        <button
+          type="button"
+          onClick={() => onChange([...targets, { ...defaultTarget, model: '' }])}
+          disabled={disabled}
+          className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
+        >
+          Add model
+        </button>
+      )}
+    </div>
+  );
+}
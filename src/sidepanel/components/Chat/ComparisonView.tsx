@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { ChatMessage } from './ChatMessage';
+import type { ComparisonAnswer, ProviderProfile, ToolCallRecord } from '@/shared/types/llm';
+import type { ToolApprovalDecision } from '@/shared/types/mcp';
+
+interface ComparisonViewProps {
+  answers: ComparisonAnswer[];
+  profiles?: ProviderProfile[];
+  isStreaming?: boolean; // Answers marked as streaming stopped if nothing is being generated
+  onPick: (answerIndex: number) => void;
+  onToolApproval?: (call: ToolCallRecord, decision: ToolApprovalDecision, answerIndex: number) => void;
+}
+
+const STATUS_LABELS: Record<ComparisonAnswer['status'], string> = {
+  streaming: 'Answering...',
+  done: '',
+  error: 'Failed',
+};
+
+/**
+ * Answers from several models to the same message, as tabs or side by side
+ */
+export function ComparisonView({ answers, profiles = [], isStreaming = false, onPick, onToolApproval }: ComparisonViewProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [sideBySide, setSideBySide] = useState(false);
+  const shownIndex = Math.min(activeIndex, answers.length - 1);
+
+  const getLabel = (answer: ComparisonAnswer) => {
+    const profile = profiles.find((p) => p.id === answer.profileId);
+    return profile ? `${profile.name} · ${answer.model}` : answer.model;
+  };
+
+  const renderAnswer = (answer: ComparisonAnswer, index: number) => {
+    // Failed answers can be picked too, then retried like any failed reply
+    const canPick = answer.messages.length > 0 && (answer.status !== 'streaming' || !isStreaming);
+
+    return (
+      <div key={index} className="min-w-0">
+        {answer.messages.map((message, i) => (
+          <ChatMessage
+            key={i}
+            message={message}
+            isStreaming={isStreaming && answer.status === 'streaming' && i === answer.messages.length - 1}
+            onToolApproval={onToolApproval && ((call, decision) => onToolApproval(call, decision, index))}
+          />
+        ))}
+        {answer.messages.length === 0 && (
+          <p className="mb-4 text-xs text-gray-500">Waiting for {answer.model}...</p>
+        )}
+        <button
+          type="button"
+          onClick={() => onPick(index)}
+          disabled={!canPick}
+          className="mb-2 text-xs px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-gray-300 transition-colors"
+        >
+          Continue with this answer
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="mb-4 p-2 rounded-lg border border-indigo-200 bg-indigo-50/40">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        {sideBySide ? (
+          <span className="text-xs font-medium text-gray-600">Comparing {answers.length} models</span>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {answers.map((answer, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => setActiveIndex(index)}
+                className={`text-xs px-2 py-1 rounded truncate max-w-[12rem] ${
+                  index === shownIndex ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 border border-gray-200'
+                }`}
+                title={getLabel(answer)}
+              >
+                {getLabel(answer)}
+                {STATUS_LABELS[answer.status] && ` · ${STATUS_LABELS[answer.status]}`}
+              </button>
+            ))}
+          </div>
+        )}
+        <button
+          type="button"
+          onClick={() => setSideBySide(!sideBySide)}
+          className="text-xs text-indigo-600 hover:text-indigo-800 whitespace-nowrap"
+        >
+          {sideBySide ? 'Show as tabs' : 'Side by side'}
+        </button>
+      </div>
+
+      {sideBySide ? (
+        <div className={`grid gap-2 ${answers.length === 3 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+          {answers.map((answer, index) => (
+            <div key={index} className="min-w-0">
+              <p className="mb-1 text-xs font-medium text-gray-600 truncate" title={getLabel(answer)}>
+                {getLabel(answer)}
+                {STATUS_LABELS[answer.status] && ` · ${STATUS_LABELS[answer.status]}`}
+              </p>
+              {renderAnswer(answer, index)}
+            </div>
+          ))}
+        </div>
+      ) : (
+        renderAnswer(answers[shownIndex], shownIndex)
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import type { ServerPrompt } from '../../hooks/useMCPCatalog';
+
+interface PromptPickerProps {
+  prompts: ServerPrompt[];
+  isLoading?: boolean;
+  highlightedIndex?: number;
+  onSelect: (prompt: ServerPrompt) => void;
+  onHighlight?: (index: number) => void;
+}
+
+interface PromptArgumentsFormProps {
+  prompt: ServerPrompt;
+  isRunning?: boolean;
+  error?: string;
+  onRun: (args: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Prompts whose name starts with the typed command, then those that mention it
+ */
+export function filterPrompts(prompts: ServerPrompt[], query: string): ServerPrompt[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return prompts;
+
+  const startsWith = prompts.filter((prompt) => prompt.name.toLowerCase().startsWith(needle));
+  const mentions = prompts.filter(
+    (prompt) =>
+      !startsWith.includes(prompt) &&
+      [prompt.name, prompt.description].some((field) => field?.toLowerCase().includes(needle))
+  );
+  return [...startsWith, ...mentions];
+}
+
+/**
+ * List of MCP prompts from connected servers, shown as `/` commands
+ */
+export function PromptPicker({ prompts, isLoading = false, highlightedIndex, onSelect, onHighlight }: PromptPickerProps) {
+  if (prompts.length === 0) {
+    return (
+      <p className="px-3 py-2 text-xs text-gray-500">
+        {isLoading ? 'Loading prompts...' : 'No matching prompts on connected MCP servers'}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="max-h-48 overflow-y-auto py-1">
+      {prompts.map((prompt, index) => (
+        <li key={`${prompt.serverId}:${prompt.name}`}>
+          <button
+            type="button"
+            // Keep focus in the message box while picking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(prompt)}
+            onMouseEnter={() => onHighlight?.(index)}
+            className={`w-full text-left px-3 py-1.5 text-xs ${
+              index === highlightedIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'
+            }`}
+          >
+            <span className="font-mono font-medium text-gray-800">/{prompt.name}</span>
+            <span className="ml-2 text-gray-500">{prompt.serverName}</span>
+            {prompt.description && <p className="text-gray-500 truncate">{prompt.description}</p>}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Inputs for a prompt's arguments before it is run
+ */
+export function PromptArgumentsForm({ prompt, isRunning = false, error, onRun, onCancel }: PromptArgumentsFormProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const args = prompt.arguments || [];
+  const isMissingRequired = args.some((arg) => arg.required && !values[arg.name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isMissingRequired || isRunning) return;
+
+    // Leave out empty optional arguments
+    onRun(Object.fromEntries(Object.entries(values).filter(([, value]) => value.trim())));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-3 space-y-2">
+      <div>
+        <p className="text-xs font-mono font-medium text-gray-800">/{prompt.name}</p>
+        {prompt.description && <p className="text-xs text-gray-500">{prompt.description}</p>}
+      </div>
+
+      {args.map((arg, index) => (
+        <label key={arg.name} className="block text-xs text-gray-700">
+          {arg.name}
+          {arg.required && <span className="text-red-600 ml-0.5">*</span>}
+          <input
+            type="text"
+            value={values[arg.name] || ''}
+            onChange={(e) => setValues({ ...values, [arg.name]: e.target.value })}
+            placeholder={arg.description}
+            autoFocus={index === 0}
+            className="mt-0.5 w-full px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </label>
+      ))}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="text-xs px-2 py-1 text-gray-600 hover:text-gray-800">
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isMissingRequired || isRunning}
+          className="text-xs px-2 py-1 rounded bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-gray-300 transition-colors"
+        >
+          {isRunning ? 'Running...' : 'Run prompt'}
+        </button>
+      </div>
+    </form>
+  );
+}
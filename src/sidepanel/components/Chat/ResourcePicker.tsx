@@ -0,0 +1,58 @@
+import type { ServerResource } from '../../hooks/useMCPCatalog';
+
+interface ResourcePickerProps {
+  resources: ServerResource[];
+  isLoading?: boolean;
+  highlightedIndex?: number;
+  onSelect: (resource: ServerResource) => void;
+  onHighlight?: (index: number) => void;
+}
+
+/**
+ * Resources matching a search, case-insensitive on name, URI and description
+ */
+export function filterResources(resources: ServerResource[], query: string): ServerResource[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return resources;
+
+  return resources.filter((resource) =>
+    [resource.name, resource.uri, resource.description].some((field) => field?.toLowerCase().includes(needle))
+  );
+}
+
+/**
+ * List of MCP resources from connected servers, labelled with their server
+ */
+export function ResourcePicker({ resources, isLoading = false, highlightedIndex, onSelect, onHighlight }: ResourcePickerProps) {
+  if (resources.length === 0) {
+    return (
+      <p className="px-3 py-2 text-xs text-gray-500">
+        {isLoading ? 'Loading resources...' : 'No matching resources on connected MCP servers'}
+      </p>
+    );
+  }
+
+  return (
+    <ul className="max-h-48 overflow-y-auto py-1">
+      {resources.map((resource, index) => (
+        <li key={`${resource.serverId}:${resource.uri}`}>
+          <button
+            type="button"
+            // Keep focus in the message box while picking
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(resource)}
+            onMouseEnter={() => onHighlight?.(index)}
+            className={`w-full text-left px-3 py-1.5 text-xs ${
+              index === highlightedIndex ? 'bg-indigo-50' : 'hover:bg-gray-50'
+            }`}
+            title={resource.uri}
+          >
+            <span className="font-medium text-gray-800">{resource.name}</span>
+            <span className="ml-2 text-gray-500">{resource.serverName}</span>
+            {resource.description && <p className="text-gray-500 truncate">{resource.description}</p>}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
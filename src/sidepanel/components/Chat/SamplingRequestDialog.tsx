@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import {
+  MessageType,
+  type MCPSamplingClosedMessage,
+  type MCPSamplingRequestMessage,
+} from '@/shared/types/messages';
+import type { MCPSamplingRequest } from '@/shared/types/mcp';
+import { ToolResultContent } from './ToolResultContent';
+
+interface PendingSampling {
+  requestId: string;
+  request: MCPSamplingRequest;
+  respond: (response: { approved: boolean }) => void;
+}
+
+/**
+ * Asks the user to allow or deny MCP servers' requests to use their model
+ * Requests arrive from the background one message at a time and are shown in order
+ * A request closed by the background (cancelled, or answered in another side panel) is dropped
+ */
+export function SamplingRequestDialog() {
+  const [queue, setQueue] = useState<PendingSampling[]>([]);
+
+  useEffect(() => {
+    const handleMessage = (
+      message: MCPSamplingRequestMessage | MCPSamplingClosedMessage,
+      _sender: chrome.runtime.MessageSender,
+      sendResponse: (response: { approved: boolean }) => void
+    ) => {
+      if (message.type === MessageType.MCP_SAMPLING_CLOSED) {
+        setQueue((prev) => prev.filter((pending) => pending.requestId !== message.requestId));
+        return;
+      }
+      if (message.type !== MessageType.MCP_SAMPLING_REQUEST) return;
+
+      setQueue((prev) => [
+        ...prev,
+        { requestId: message.requestId, request: message.request, respond: sendResponse },
+      ]);
+      return true; // Answered later, once the user decides
+    };
+
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => chrome.runtime.onMessage.removeListener(handleMessage);
+  }, []);
+
+  if (queue.length === 0) return null;
+
+  const [{ requestId, request, respond }] = queue;
+
+  const answer = (approved: boolean) => {
+    respond({ approved });
+    setQueue((prev) => prev.filter((pending) => pending.requestId !== requestId));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full flex flex-col">
+        <div className="p-4 border-b border-gray-200">
+          <h3 className="text-base font-semibold text-gray-900">
+            {request.serverName} wants to use your AI model
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            The server sent the messages below. If you allow it, they go to your configured model and the answer is
+            returned to the server.
+            {queue.length > 1 && ` ${queue.length - 1} more waiting.`}
+          </p>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto text-xs">
+          {request.systemPrompt && (
+            <div>
+              <p className="font-medium text-gray-600 mb-1">System prompt</p>
+              <p className="whitespace-pre-wrap break-words text-gray-800 bg-gray-50 border border-gray-200 rounded p-2">
+                {request.systemPrompt}
+              </p>
+            </div>
+          )}
+
+          {request.messages.map((message, i) => {
+            const content = [message.content].flat();
+            const textBlocks = content.filter((block) => block.type === 'text');
+            const otherBlocks = content.filter((block) => block.type !== 'text');
+
+            return (
+              <div key={i}>
+                <p className="font-medium text-gray-600 mb-1">{message.role === 'user' ? 'User' : 'Assistant'}</p>
+                <div className="bg-gray-50 border border-gray-200 rounded p-2 space-y-1">
+                  {textBlocks.map((block, j) => (
+                    <p key={j} className="whitespace-pre-wrap break-words text-gray-800">
+                      {block.type === 'text' && block.text}
+                    </p>
+                  ))}
+                  {otherBlocks.length > 0 && <ToolResultContent content={otherBlocks} />}
+                </div>
+              </div>
+            );
+          })}
+
+          <p className="text-gray-500">
+            Up to {request.maxTokens} tokens
+            {request.temperature !== undefined && `, temperature ${request.temperature}`}
+            {request.modelHints?.length ? `. Server prefers: ${request.modelHints.join(', ')}` : ''}
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            type="button"
+            onClick={() => answer(false)}
+            className="text-sm px-3 py-1.5 rounded bg-white hover:bg-red-50 text-red-600 border border-red-200 transition-colors"
+          >
+            Deny
+          </button>
+          <button
+            type="button"
+            onClick={() => answer(true)}
+            className="text-sm px-3 py-1.5 rounded bg-indigo-600 hover:bg-indigo-700 text-white transition-colors"
+          >
+            Allow
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import type { ToolCallRecord } from '@/shared/types/llm';
+import type { ToolApprovalDecision } from '@/shared/types/mcp';
+import { isMCPContentArray } from '@/shared/utils/toolResults';
+import { ToolResultContent } from './ToolResultContent';
+
+interface ToolCallListProps {
+  toolCalls: ToolCallRecord[];
+  onApproval?: (call: ToolCallRecord, decision: ToolApprovalDecision) => void;
+}
+
+const APPROVAL_BUTTONS: Array<{ decision: ToolApprovalDecision; label: string; className: string }> = [
+  { decision: 'allow_once', label: 'Allow once', className: 'bg-indigo-600 hover:bg-indigo-700 text-white' },
+  { decision: 'allow_always', label: 'Always allow', className: 'bg-white hover:bg-gray-100 text-gray-700 border border-gray-300' },
+  { decision: 'deny', label: 'Deny', className: 'bg-white hover:bg-red-50 text-red-600 border border-red-200' },
+];
+
+function formatDuration(durationMs?: number): string {
+  if (durationMs === undefined) return '';
+  return durationMs < 1000 ? `${durationMs}ms` : `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+function formatJSON(value: unknown): string {
+  try {
+    return JSON.stringify(value, null, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+export function ToolCallList({ toolCalls, onApproval }: ToolCallListProps) {
+  return (
+    <div className="mb-3 space-y-1">
+      {toolCalls.map((call) => (
+        <div key={call.id}>
+          <details
+            open={call.status === 'awaiting_approval' || undefined}
+            className={`rounded border text-xs ${
+              call.status === 'awaiting_approval' ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <summary className="flex items-center gap-2 px-2 py-1 cursor-pointer select-none">
+              {call.status === 'awaiting_approval' ? (
+                <span className="text-amber-600">?</span>
+              ) : call.status === 'running' ? (
+                <svg className="w-3 h-3 text-indigo-600 animate-spin" fill="none" viewBox="0 0 24 24">
+                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8v4a4 4 0 00-4 4H4z" />
+                </svg>
+              ) : call.status === 'success' ? (
+                <span className="text-green-600">✓</span>
+              ) : (
+                <span className="text-red-600">✗</span>
+              )}
+              <span className="font-mono text-gray-800">{call.toolName}</span>
+              {call.status === 'awaiting_approval' && (
+                <span className="text-amber-700">wants to run</span>
+              )}
+              {call.status === 'error' && call.error && (
+                <span className="text-red-600 truncate">{call.error}</span>
+              )}
+              <span className="ml-auto text-gray-500">{formatDuration(call.durationMs)}</span>
+            </summary>
+
+            <div className="px-2 pb-2 space-y-2">
+              <div>
+                <p className="font-medium text-gray-600 mb-1">Arguments</p>
+                <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto whitespace-pre-wrap break-words">
+                  {formatJSON(call.arguments)}
+                </pre>
+              </div>
+              {call.status === 'awaiting_approval' && onApproval && (
+                <div className="flex flex-wrap gap-1">
+                  {APPROVAL_BUTTONS.map(({ decision, label, className }) => (
+                    <button
+                      key={decision}
+                      type="button"
+                      onClick={() => onApproval(call, decision)}
+                      className={`px-2 py-1 rounded transition-colors ${className}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {call.result !== undefined && !isMCPContentArray(call.result) && (
+                <div>
+                  <p className="font-medium text-gray-600 mb-1">Result</p>
+                  <pre className="bg-white border border-gray-200 rounded p-2 overflow-x-auto max-h-64 whitespace-pre-wrap break-words">
+                    {formatJSON(call.result)}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </details>
+
+          {/* MCP content stays visible below the call */}
+          {isMCPContentArray(call.result) && call.result.length > 0 && (
+            <div className="mt-1 ml-2 text-xs">
+              <ToolResultContent content={call.result} />
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import type { MCPContent } from '@/shared/types/mcp';
+import { toDataURL } from '@/shared/utils/toolResults';
+
+interface ToolResultContentProps {
+  content: MCPContent[];
+}
+
+const linkClassName = 'text-indigo-600 hover:text-indigo-800 underline break-all';
+
+/**
+ * First line of a text block, shown while it is collapsed
+ */
+function getPreview(text: string): string {
+  const firstLine = text.trim().split('\n')[0];
+  return firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine;
+}
+
+function isWebURL(uri: string): boolean {
+  return uri.startsWith('http://') || uri.startsWith('https://');
+}
+
+function ResourceLink({ uri, label }: { uri: string; label?: string }) {
+  // Other schemes (file://, custom server URIs) can't be opened from the browser
+  if (!isWebURL(uri)) {
+    return <code className="font-mono text-gray-700 break-all">{label || uri}</code>;
+  }
+
+  return (
+    <a href={uri} target="_blank" rel="noopener noreferrer" className={linkClassName} title={uri}>
+      {label || uri}
+    </a>
+  );
+}
+
+function CollapsibleText({ title, text }: { title: string; text: string }) {
+  return (
+    <details className="rounded border border-gray-200 bg-white">
+      <summary className="px-2 py-1 cursor-pointer select-none text-gray-600 truncate">{title}</summary>
+      <pre className="px-2 pb-2 overflow-x-auto max-h-64 whitespace-pre-wrap break-words">{text}</pre>
+    </details>
+  );
+}
+
+/**
+ * A tool result's content blocks: images inline, text collapsible, resources as links
+ */
+export function ToolResultContent({ content }: ToolResultContentProps) {
+  return (
+    <div className="space-y-1">
+      {content.map((block, i) => {
+        switch (block.type) {
+          case 'text':
+            return <CollapsibleText key={i} title={getPreview(block.text) || 'Text'} text={block.text} />;
+
+          case 'image':
+            return (
+              <img
+                key={i}
+                src={toDataURL(block.mimeType, block.data)}
+                alt="Tool result"
+                className="max-w-full max-h-64 rounded border border-gray-200"
+              />
+            );
+
+          case 'audio':
+            return <audio key={i} controls src={toDataURL(block.mimeType, block.data)} className="w-full" />;
+
+          case 'resource': {
+            const { uri, mimeType, text, blob } = block.resource;
+
+            if (blob && mimeType?.startsWith('image/')) {
+              return (
+                <img
+                  key={i}
+                  src={toDataURL(mimeType, blob)}
+                  alt={uri}
+                  title={uri}
+                  className="max-w-full max-h-64 rounded border border-gray-200"
+                />
+              );
+            }
+
+            return text !== undefined ? (
+              <div key={i}>
+                <ResourceLink uri={uri} />
+                <CollapsibleText title={getPreview(text) || uri} text={text} />
+              </div>
+            ) : (
+              <div key={i}>
+                <ResourceLink uri={uri} />
+                {mimeType && <span className="ml-1 text-gray-500">({mimeType})</span>}
+              </div>
+            );
+          }
+
+          case 'resource_link':
+            return (
+              <div key={i}>
+                <ResourceLink uri={block.uri} label={block.name} />
+                {block.description && <span className="ml-1 text-gray-500">{block.description}</span>}
+              </div>
+            );
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { LLMProvider, type FallbackModel } from '@/shared/types/llm';
+import { DEFAULT_AZURE_API_VERSION, DEFAULT_FIRST_TOKEN_TIMEOUT_MS } from '@/shared/constants';
+import { Input } from '../common/Input';
+
+interface FallbackModelsSettingsProps {
+  primaryProvider: LLMProvider;
+  fallbackModels: FallbackModel[];
+  firstTokenTimeoutMs?: number;
+  onChange: (fallbackModels: FallbackModel[]) => void;
+  onTimeoutChange: (firstTokenTimeoutMs: number) => void;
+}
+
+export function FallbackModelsSettings({
+  primaryProvider,
+  fallbackModels,
+  firstTokenTimeoutMs,
+  onChange,
+  onTimeoutChange,
+}: FallbackModelsSettingsProps) {
+  const updateFallback = (index: number, updates: Partial<FallbackModel>) => {
+    onChange(fallbackModels.map((fallback, i) => (i === index ? { ...fallback, ...updates } : fallback)));
+  };
+
+  const removeFallback = (index: number) => {
+    onChange(fallbackModels.filter((_, i) => i !== index));
+  };
+
+  const addFallback = () => {
+    onChange([...fallbackModels, { provider: primaryProvider, model: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">
+          Fallback models
+        </label>
+        <button
+          type="button"
+          onClick={addFallback}
+          className="text-xs px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700 transition-colors"
+        >
+          Add fallback
+        </button>
+      </div>
+
+      {fallbackModels.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Tried in order when the main model fails or doesn't respond, so you don't have to switch by hand.
+        </p>
+      )}
+
+      {fallbackModels.map((fallback, index) => {
+        const sameProvider = fallback.provider === primaryProvider;
+        const azure = fallback.azure || { resourceName: '', apiVersion: DEFAULT_AZURE_API_VERSION };
+
+        return (
+          <div key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-gray-500">{index + 1}.</span>
+              <select
+                value={fallback.provider}
+                onChange={(e) => updateFallback(index, { provider: e.target.value as LLMProvider })}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              >
+                <option value="openai_compatible">OpenAI Compatible</option>
+                <option value="openrouter">OpenRouter</option>
+                <option value="anthropic">Anthropic</option>
+                <option value="ollama">Ollama (Local)</option>
+                <option value="azure_openai">Azure OpenAI</option>
+              </select>
+              <input
+                type="text"
+                value={fallback.model}
+                onChange={(e) => updateFallback(index, { model: e.target.value })}
+                placeholder={fallback.provider === LLMProvider.AZURE_OPENAI ? 'Deployment name' : 'Model name'}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+              />
+              <button
+                type="button"
+                onClick={() => removeFallback(index)}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove fallback"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {/* A different service needs its own address (or Azure resource) and key */}
+            {!sameProvider && (
+              <div className="grid grid-cols-2 gap-2">
+                {fallback.provider === LLMProvider.AZURE_OPENAI ? (
+                  <>
+                    <Input
+                      type="text"
+                      value={azure.resourceName}
+                      onChange={(e) => updateFallback(index, { azure: { ...azure, resourceName: e.target.value } })}
+                      placeholder="Resource name"
+                      className="text-sm"
+                    />
+                    <Input
+                      type="text"
+                      value={azure.apiVersion}
+                      onChange={(e) => updateFallback(index, { azure: { ...azure, apiVersion: e.target.value } })}
+                      placeholder={DEFAULT_AZURE_API_VERSION}
+                      className="text-sm"
+                    />
+                  </>
+                ) : (
+                  <Input
+                    type="url"
+                    value={fallback.apiEndpoint || ''}
+                    onChange={(e) => updateFallback(index, { apiEndpoint: e.target.value || undefined })}
+                    placeholder="Default service URL"
+                    className="text-sm"
+                  />
+                )}
+                <Input
+                  type="password"
+                  value={fallback.apiKey || ''}
+                  onChange={(e) => updateFallback(index, { apiKey: e.target.value || undefined })}
+                  placeholder="Access key"
+                  className="text-sm"
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {fallbackModels.length > 0 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Wait for first response
+          </label>
+          <select
+            value={firstTokenTimeoutMs ?? DEFAULT_FIRST_TOKEN_TIMEOUT_MS}
+            onChange={(e) => onTimeoutChange(parseInt(e.target.value))}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="15000">15 seconds</option>
+            <option value="30000">30 seconds</option>
+            <option value="60000">60 seconds (Default)</option>
+            <option value="120000">2 minutes</option>
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Move on to the next model if nothing arrives in this time
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
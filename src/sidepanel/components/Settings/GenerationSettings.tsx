@@ -0,0 +1,175 @@
+import { useEffect, useState } from 'react';
+import type { GenerationParams, ParameterPreset } from '@/shared/types/llm';
+
+interface GenerationSettingsProps {
+  generation: GenerationParams;
+  presets: ParameterPreset[];
+  onGenerationChange: (generation: GenerationParams) => void;
+  onPresetsChange: (presets: ParameterPreset[]) => void;
+}
+
+type NumericParam = Exclude<keyof GenerationParams, 'stop'>;
+
+// Integer fields only take whole numbers; providers reject e.g. a max tokens of 1.5
+const NUMERIC_FIELDS: Array<{
+  key: NumericParam;
+  label: string;
+  min?: number;
+  max?: number;
+  step: string;
+  integer?: boolean;
+}> = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: '0.1' },
+  { key: 'topP', label: 'Top P', min: 0, max: 1, step: '0.05' },
+  { key: 'maxTokens', label: 'Max tokens', min: 1, step: '1', integer: true },
+  { key: 'seed', label: 'Seed', step: '1', integer: true },
+  { key: 'presencePenalty', label: 'Presence penalty', min: -2, max: 2, step: '0.1' },
+  { key: 'frequencyPenalty', label: 'Frequency penalty', min: -2, max: 2, step: '0.1' },
+];
+
+const fieldClassName =
+  'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+interface GenerationParamsFieldsProps {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+}
+
+/**
+ * Stop sequences typed one per line; commas and spaces are kept as typed
+ */
+function parseStopSequences(text: string): string[] | undefined {
+  const stop = text.split('\n').filter((line) => line !== '');
+  return stop.length > 0 ? stop : undefined;
+}
+
+/**
+ * Inputs for one set of generation parameters (empty = server default)
+ */
+function GenerationParamsFields({ params, onChange }: GenerationParamsFieldsProps) {
+  const handleNumberChange = (key: NumericParam, value: string, integer?: boolean) => {
+    const parsed = integer ? parseInt(value, 10) : parseFloat(value);
+    onChange({ ...params, [key]: isNaN(parsed) ? undefined : parsed });
+  };
+
+  // The typed text keeps blank lines while editing; it is replaced when the
+  // sequences change from outside, e.g. when a preset or profile loads
+  const [stopText, setStopText] = useState(params.stop?.join('\n') ?? '');
+
+  useEffect(() => {
+    setStopText((text) =>
+      parseStopSequences(text)?.join('\n') === params.stop?.join('\n') ? text : params.stop?.join('\n') ?? ''
+    );
+  }, [params.stop]);
+
+  const handleStopChange = (value: string) => {
+    setStopText(value);
+    onChange({ ...params, stop: parseStopSequences(value) });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {NUMERIC_FIELDS.map(({ key, label, min, max, step, integer }) => (
+        <div key={key}>
+          <label className="block text-xs font-medium text-gray-600 mb-1">{label}</label>
+          <input
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            value={params[key] ?? ''}
+            onChange={(e) => handleNumberChange(key, e.target.value, integer)}
+            placeholder="Default"
+            className={fieldClassName}
+          />
+        </div>
+      ))}
+      <div className="col-span-2">
+        <label className="block text-xs font-medium text-gray-600 mb-1">Stop sequences</label>
+        <textarea
+          value={stopText}
+          onChange={(e) => handleStopChange(e.target.value)}
+          rows={2}
+          placeholder="One per line"
+          className={`${fieldClassName} resize-y font-mono`}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function GenerationSettings({
+  generation,
+  presets,
+  onGenerationChange,
+  onPresetsChange,
+}: GenerationSettingsProps) {
+  const updatePreset = (id: string, updates: Partial<ParameterPreset>) => {
+    onPresetsChange(presets.map((preset) => (preset.id === id ? { ...preset, ...updates } : preset)));
+  };
+
+  const addPreset = () => {
+    onPresetsChange([
+      ...presets,
+      { id: `preset-${Date.now()}`, name: 'New preset', params: { ...generation } },
+    ]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-1">Generation Parameters</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Leave a field empty to use the service's default. Chats use these unless a preset is picked in the header.
+        </p>
+        <GenerationParamsFields params={generation} onChange={onGenerationChange} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="block text-sm font-medium text-gray-700">Presets</label>
+          <button
+            type="button"
+            onClick={addPreset}
+            className="text-xs px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700 transition-colors"
+          >
+            Add preset
+          </button>
+        </div>
+
+        {presets.map((preset) => (
+          <details key={preset.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
+            <summary className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="text"
+                value={preset.name}
+                onChange={(e) => updatePreset(preset.id, { name: e.target.value })}
+                onClick={(e) => e.stopPropagation()}
+                className={`${fieldClassName} flex-1`}
+              />
+              <button
+                type="button"
+                onClick={(e) => {
+                  e.preventDefault();
+                  onPresetsChange(presets.filter((p) => p.id !== preset.id));
+                }}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Delete preset"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </summary>
+            <div className="mt-3">
+              <GenerationParamsFields
+                params={preset.params}
+                onChange={(params) => updatePreset(preset.id, { params })}
+              />
+            </div>
+          </details>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,27 @@
-import { LLMProvider } from '@/shared/types/llm';
-import { DEFAULT_ENDPOINTS } from '@/shared/constants';
+import { LLMProvider, type APIFormat, type AzureSettings } from '@/shared/types/llm';
+import { DEFAULT_ENDPOINTS, DEFAULT_AZURE_API_VERSION, RESPONSES_API_PROVIDERS } from '@/shared/constants';
 import { Input } from '../common/Input';
 
 interface LLMProviderSettingsProps {
   provider: LLMProvider;
   apiEndpoint: string;
+  azure?: AzureSettings;
+  apiFormat?: APIFormat;
   onProviderChange: (provider: LLMProvider) => void;
   onEndpointChange: (endpoint: string) => void;
+  onAzureChange: (azure: AzureSettings) => void;
+  onApiFormatChange: (apiFormat: APIFormat) => void;
 }
 
 export function LLMProviderSettings({
   provider,
   apiEndpoint,
+  azure = { resourceName: '', apiVersion: DEFAULT_AZURE_API_VERSION },
+  apiFormat = 'chat_completions',
   onProviderChange,
   onEndpointChange,
+  onAzureChange,
+  onApiFormatChange,
 }: LLMProviderSettingsProps) {
   const handleProviderChange = (newProvider: LLMProvider) => {
     console.log('LLMProviderSettings: handleProviderChange called with:', newProvider);
@@ -43,16 +51,58 @@ export function LLMProviderSettings({
         >
           <option value="openai_compatible">OpenAI Compatible</option>
           <option value="openrouter">OpenRouter</option>
+          <option value="anthropic">Anthropic</option>
+          <option value="ollama">Ollama (Local)</option>
+          <option value="azure_openai">Azure OpenAI</option>
         </select>
       </div>
 
-      <Input
-        label="Service URL"
-        type="url"
-        value={apiEndpoint}
-        onChange={(e) => onEndpointChange(e.target.value)}
-        placeholder="https://api.example.com/v1/chat/completions"
-      />
+      {provider === LLMProvider.AZURE_OPENAI ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            label="Resource name"
+            type="text"
+            value={azure.resourceName}
+            onChange={(e) => onAzureChange({ ...azure, resourceName: e.target.value })}
+            placeholder="my-resource"
+          />
+          <Input
+            label="API version"
+            type="text"
+            value={azure.apiVersion}
+            onChange={(e) => onAzureChange({ ...azure, apiVersion: e.target.value })}
+            placeholder={DEFAULT_AZURE_API_VERSION}
+          />
+        </div>
+      ) : (
+        <Input
+          label="Service URL"
+          type="url"
+          value={apiEndpoint}
+          onChange={(e) => onEndpointChange(e.target.value)}
+          placeholder="https://api.example.com/v1/chat/completions"
+        />
+      )}
+
+      {RESPONSES_API_PROVIDERS.includes(provider) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            API format
+          </label>
+          <select
+            value={apiFormat}
+            onChange={(e) => onApiFormatChange(e.target.value as APIFormat)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            <option value="chat_completions">Chat Completions (Default)</option>
+            <option value="responses">Responses</option>
+          </select>
+          <p className="mt-1 text-xs text-gray-500">
+            Responses is sent to the <code>/responses</code> endpoint next to the service URL. Some newer models
+            and gateways only offer reasoning summaries and their full feature set there.
+          </p>
+        </div>
+      )}
 
       <div className="text-xs text-gray-500">
         {provider === LLMProvider.OPENAI_COMPATIBLE && (
@@ -71,6 +121,31 @@ export function LLMProviderSettings({
             </a>
           </p>
         )}
+        {provider === LLMProvider.ANTHROPIC && (
+          <p>
+            Uses the native Messages API. Get your key from{' '}
+            <a
+              href="https://console.anthropic.com/settings/keys"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-600 hover:underline"
+            >
+              Anthropic Console
+            </a>
+          </p>
+        )}
+        {provider === LLMProvider.OLLAMA && (
+          <p>
+            Talks to your local Ollama server directly; no access key needed. Start Ollama with{' '}
+            <code>OLLAMA_ORIGINS=chrome-extension://*</code> so the extension is allowed to connect.
+          </p>
+        )}
+        {provider === LLMProvider.AZURE_OPENAI && (
+          <p>
+            Requests go to <code>https://&lt;resource&gt;.openai.azure.com</code> (or enter a full URL for a
+            custom domain). Pick a deployment as the model and use one of the resource's keys.
+          </p>
+        )}
       </div>
     </div>
   );
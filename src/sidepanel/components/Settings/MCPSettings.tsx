@@ -1,9 +1,19 @@
 import { useState } from 'react';
 import { useSettingsStore } from '../../store/settingsStore';
 import { useMCPServers } from '../../hooks/useMCPServers';
-import type { MCPServer } from '@/shared/types/mcp';
+import type { MCPServer, ToolApprovalPolicy } from '@/shared/types/mcp';
+import { DEFAULT_MAX_TOOL_ROUNDS, DEFAULT_TOOL_APPROVAL_POLICY } from '@/shared/constants';
 import { Button } from '../common/Button';
 
+const APPROVAL_POLICY_LABELS: Record<ToolApprovalPolicy, string> = {
+  ask: 'Ask every time',
+  allow: 'Always allow',
+  deny: 'Never allow',
+};
+
+const policySelectClassName =
+  'text-xs px-1.5 py-0.5 border border-gray-300 rounded bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
 export function MCPSettings() {
   const { settings, updateSettings } = useSettingsStore();
   const { getServerState } = useMCPServers();
@@ -11,6 +21,7 @@ export function MCPSettings() {
   const [editingServer, setEditingServer] = useState<MCPServer | null>(null);
 
   const mcpServers = settings.mcp?.servers || [];
+  const maxToolRounds = settings.mcp?.maxToolRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
 
   const handleAddServer = () => {
     setEditingServer({
@@ -73,6 +84,42 @@ export function MCPSettings() {
     });
   };
 
+  const updateServer = (serverId: string, update: (server: MCPServer) => MCPServer) => {
+    const updatedServers = mcpServers.map((s) => (s.id === serverId ? update(s) : s));
+    updateSettings({
+      ...settings,
+      mcp: {
+        ...settings.mcp,
+        servers: updatedServers,
+        enabledByDefault: settings.mcp?.enabledByDefault ?? true,
+      },
+    });
+  };
+
+  const handleServerApprovalChange = (serverId: string, policy: ToolApprovalPolicy) => {
+    updateServer(serverId, (s) => ({ ...s, toolApproval: policy }));
+  };
+
+  // An empty policy falls back to the server's
+  const handleToolPolicyChange = (serverId: string, toolName: string, policy: ToolApprovalPolicy | '') => {
+    updateServer(serverId, (s) => {
+      const { [toolName]: _previous, ...toolPolicies } = s.toolPolicies ?? {};
+      return { ...s, toolPolicies: policy ? { ...toolPolicies, [toolName]: policy } : toolPolicies };
+    });
+  };
+
+  const handleMaxToolRoundsChange = (rounds: number) => {
+    updateSettings({
+      ...settings,
+      mcp: {
+        ...settings.mcp,
+        servers: mcpServers,
+        enabledByDefault: settings.mcp?.enabledByDefault ?? true,
+        maxToolRounds: rounds,
+      },
+    });
+  };
+
   return (
     <div className="space-y-4">
       <div className="flex items-center justify-between">
@@ -92,6 +139,26 @@ export function MCPSettings() {
         Connect to MCP servers to extend the AI with external tools and data sources.
       </p>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Max tool rounds
+        </label>
+        <select
+          value={maxToolRounds}
+          onChange={(e) => handleMaxToolRoundsChange(parseInt(e.target.value))}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="1">1 round</option>
+          <option value="3">3 rounds</option>
+          <option value="5">5 rounds (Default)</option>
+          <option value="10">10 rounds</option>
+          <option value="20">20 rounds</option>
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          How many times the AI may call tools and read their results before it has to answer
+        </p>
+      </div>
+
       {/* Server List */}
       <div className="space-y-2">
         {mcpServers.length === 0 && !isAddingServer && (
@@ -186,6 +253,20 @@ export function MCPSettings() {
                   <p className="text-xs text-gray-500 mt-1">{server.description}</p>
                 )}
 
+                {/* Approval policy for this server's tools */}
+                <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                  Run tools:
+                  <select
+                    value={server.toolApproval ?? DEFAULT_TOOL_APPROVAL_POLICY}
+                    onChange={(e) => handleServerApprovalChange(server.id, e.target.value as ToolApprovalPolicy)}
+                    className={policySelectClassName}
+                  >
+                    {Object.entries(APPROVAL_POLICY_LABELS).map(([policy, label]) => (
+                      <option key={policy} value={policy}>{label}</option>
+                    ))}
+                  </select>
+                </label>
+
                 {/* Error Message */}
                 {hasError && state?.error && (
                   <p className="text-xs text-red-600 mt-1">Error: {state.error}</p>
@@ -233,6 +314,17 @@ export function MCPSettings() {
                             <code className="text-xs font-mono font-semibold text-indigo-600 bg-indigo-50 px-2 py-0.5 rounded">
                               {tool.name}
                             </code>
+                            <select
+                              value={server.toolPolicies?.[tool.name] ?? ''}
+                              onChange={(e) => handleToolPolicyChange(server.id, tool.name, e.target.value as ToolApprovalPolicy | '')}
+                              className={`ml-auto ${policySelectClassName}`}
+                              title="Approval for this tool"
+                            >
+                              <option value="">Server default</option>
+                              {Object.entries(APPROVAL_POLICY_LABELS).map(([policy, label]) => (
+                                <option key={policy} value={policy}>{label}</option>
+                              ))}
+                            </select>
                           </div>
                           {tool.description && (
                             <p className="text-xs text-gray-600 mt-1 leading-relaxed">
@@ -1,23 +1,38 @@
 import { useState, useEffect } from 'react';
-import { POPULAR_MODELS } from '@/shared/constants';
-import { LLMProvider } from '@/shared/types/llm';
+import { POPULAR_MODELS, API_KEY_OPTIONAL_PROVIDERS } from '@/shared/constants';
+import { LLMProvider, type AzureSettings } from '@/shared/types/llm';
 import { fetchModelsFromAPI } from '@/shared/utils/modelsFetch';
 
 interface ModelSelectorProps {
   provider: LLMProvider;
   value: string;
   onChange: (value: string) => void;
+  models?: string[]; // Loaded earlier for this service; kept with the settings or profile being edited
+  onModelsChange: (models: string[]) => void;
   apiEndpoint: string;
   apiKey: string;
+  azure?: AzureSettings;
 }
 
-export function ModelSelector({ provider, value, onChange, apiEndpoint, apiKey }: ModelSelectorProps) {
-  const [fetchedModels, setFetchedModels] = useState<string[]>([]);
+export function ModelSelector({
+  provider,
+  value,
+  onChange,
+  models,
+  onModelsChange,
+  apiEndpoint,
+  apiKey,
+  azure,
+}: ModelSelectorProps) {
   const [isFetching, setIsFetching] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
-  const [hasFetched, setHasFetched] = useState(false);
+
+  const fetchedModels = models || [];
 
   const popularModels = POPULAR_MODELS[provider] || [];
+  // Azure builds its URLs from the resource name instead of the service URL
+  const hasLocation = provider === LLMProvider.AZURE_OPENAI ? !!azure?.resourceName : !!apiEndpoint;
+  const hasCredentials = hasLocation && (!!apiKey || API_KEY_OPTIONAL_PROVIDERS.includes(provider));
 
   // Use fetched models if available, otherwise fallback to popular models
   const availableModels = fetchedModels.length > 0 ? fetchedModels : Array.from(popularModels);
@@ -25,7 +40,7 @@ export function ModelSelector({ provider, value, onChange, apiEndpoint, apiKey }
 
   // Fetch models from API
   const handleFetchModels = async () => {
-    if (!apiEndpoint || !apiKey) {
+    if (!hasCredentials) {
       setFetchError('Please enter your service URL and access key first');
       return;
     }
@@ -34,13 +49,12 @@ export function ModelSelector({ provider, value, onChange, apiEndpoint, apiKey }
     setFetchError(null);
 
     try {
-      const models = await fetchModelsFromAPI(apiEndpoint, apiKey, provider);
-      setFetchedModels(models);
-      setHasFetched(true);
+      const loadedModels = await fetchModelsFromAPI(apiEndpoint, apiKey, provider, azure);
+      onModelsChange(loadedModels);
 
       // If current value is not in the fetched models and there are models, select the first one
-      if (models.length > 0 && !models.includes(value)) {
-        onChange(models[0]);
+      if (loadedModels.length > 0 && !loadedModels.includes(value)) {
+        onChange(loadedModels[0]);
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Could not load models';
@@ -51,19 +65,16 @@ export function ModelSelector({ provider, value, onChange, apiEndpoint, apiKey }
     }
   };
 
-  // Auto-fetch when component mounts if API key is available
+  // Auto-fetch when there is no list yet (the parent clears it when the service changes)
   useEffect(() => {
-    if (apiKey && apiEndpoint && !hasFetched) {
+    if (hasCredentials && !models) {
       handleFetchModels();
     }
-  }, [apiKey, apiEndpoint]);
+  }, [apiKey, apiEndpoint, azure?.resourceName, !models]);
 
-  // Reset fetched models when provider or endpoint changes
   useEffect(() => {
-    setFetchedModels([]);
-    setHasFetched(false);
     setFetchError(null);
-  }, [provider, apiEndpoint]);
+  }, [provider, apiEndpoint, azure?.resourceName]);
 
   return (
     <div>
@@ -74,7 +85,7 @@ export function ModelSelector({ provider, value, onChange, apiEndpoint, apiKey }
         <button
           type="button"
           onClick={handleFetchModels}
-          disabled={isFetching || !apiKey || !apiEndpoint}
+          disabled={isFetching || !hasCredentials}
           className="text-xs text-indigo-600 hover:text-indigo-800 disabled:text-gray-400"
         >
           {isFetching ? 'Loading...' : 'Load Available Models'}
@@ -0,0 +1,82 @@
+import type { LLMSettings, ProviderProfile } from '@/shared/types/llm';
+import { createProfile, updateProfile } from '@/shared/utils/profiles';
+
+interface ProfilesSettingsProps {
+  profiles: ProviderProfile[];
+  settings: LLMSettings; // Main settings from the form, saved into profiles
+  editingProfileId?: string; // Profile open in the form below instead of the main settings
+  onChange: (profiles: ProviderProfile[]) => void;
+  onEdit: (profile: ProviderProfile) => void;
+}
+
+const buttonClassName =
+  'text-xs px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 text-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export function ProfilesSettings({ profiles, settings, editingProfileId, onChange, onEdit }: ProfilesSettingsProps) {
+  const isEditing = editingProfileId !== undefined;
+
+  const replaceProfile = (id: string, profile: ProviderProfile) => {
+    onChange(profiles.map((p) => (p.id === id ? profile : p)));
+  };
+
+  const addProfile = () => {
+    onChange([...profiles, createProfile(settings, settings.model || `Profile ${profiles.length + 1}`)]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="block text-sm font-medium text-gray-700">Profiles</label>
+        <button type="button" onClick={addProfile} disabled={isEditing} className={buttonClassName}>
+          Save as profile
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Save the service, key, models and parameters below under a name, then switch chats between profiles from
+        the header. Edit a profile to change it in the form below without touching the main settings.
+      </p>
+
+      {profiles.map((profile) => (
+        <div key={profile.id} className="flex items-center gap-2 p-2 bg-gray-50 rounded-lg border border-gray-200">
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => replaceProfile(profile.id, { ...profile, name: e.target.value })}
+            className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <span className="text-xs text-gray-500 truncate max-w-[30%]" title={`${profile.provider} · ${profile.model}`}>
+            {profile.model}
+          </span>
+          <button
+            type="button"
+            onClick={() => onEdit(profile)}
+            disabled={isEditing}
+            className={buttonClassName}
+            title="Open in the form below"
+          >
+            {profile.id === editingProfileId ? 'Editing' : 'Edit'}
+          </button>
+          <button
+            type="button"
+            onClick={() => replaceProfile(profile.id, updateProfile(profile, settings))}
+            disabled={isEditing}
+            className={buttonClassName}
+            title="Replace with the main settings"
+          >
+            Update
+          </button>
+          <button
+            type="button"
+            onClick={() => onChange(profiles.filter((p) => p.id !== profile.id))}
+            className="p-1 text-gray-400 hover:text-red-600"
+            title="Delete profile"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
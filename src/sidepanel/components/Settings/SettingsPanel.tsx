@@ -1,22 +1,57 @@
 import { useState, useEffect } from 'react';
 import { Button } from '../common/Button';
-import { TextArea } from '../common/Input';
+import { Input, TextArea } from '../common/Input';
 import { ApiKeyInput } from './ApiKeyInput';
 import { ModelSelector } from './ModelSelector';
 import { LLMProviderSettings } from './LLMProviderSettings';
 import { MCPSettings } from './MCPSettings';
+import { FallbackModelsSettings } from './FallbackModelsSettings';
+import { GenerationSettings } from './GenerationSettings';
+import { ProfilesSettings } from './ProfilesSettings';
 import { useSettings } from '../../hooks/useSettings';
 import { useChatStore } from '../../store/chatStore';
-import type { LLMProvider } from '@/shared/types/llm';
+import {
+  LLMProvider,
+  type LLMSettings,
+  type LongPageMode,
+  type ModelPricing,
+  type ProviderProfile,
+  type ReasoningEffort,
+} from '@/shared/types/llm';
+import { applyProfile, updateProfile } from '@/shared/utils/profiles';
+import { DEFAULT_MAX_RETRIES, DEFAULT_RETRY_MAX_DELAY_MS } from '@/shared/constants';
 
 interface SettingsPanelProps {
   onClose: () => void;
 }
 
+/**
+ * A profile open for editing, with its service settings as a full form
+ */
+interface ProfileDraft {
+  profileId: string;
+  settings: LLMSettings;
+}
+
+/**
+ * Settings with the draft written back into its profile
+ */
+function withProfileDraft(settings: LLMSettings, draft: ProfileDraft | null): LLMSettings {
+  if (!draft) return settings;
+
+  return {
+    ...settings,
+    profiles: settings.profiles?.map((profile) =>
+      profile.id === draft.profileId ? updateProfile(profile, draft.settings) : profile
+    ),
+  };
+}
+
 export function SettingsPanel({ onClose }: SettingsPanelProps) {
   const { settings, updateSettings, isLoading } = useSettings();
   const { clearAllSessions, sessions } = useChatStore();
   const [formData, setFormData] = useState(settings);
+  const [profileDraft, setProfileDraft] = useState<ProfileDraft | null>(null);
   const [hasChanges, setHasChanges] = useState(false);
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
@@ -31,13 +66,94 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
   }, [formData]);
 
   useEffect(() => {
-    const changed = JSON.stringify(formData) !== JSON.stringify(settings);
+    const changed = JSON.stringify(withProfileDraft(formData, profileDraft)) !== JSON.stringify(settings);
     setHasChanges(changed);
-  }, [formData, settings]);
+  }, [formData, profileDraft, settings]);
+
+  // The service fields edit the open profile instead of the main settings
+  const service = profileDraft?.settings ?? formData;
+  const setService = (update: (prev: LLMSettings) => LLMSettings) => {
+    if (profileDraft) {
+      setProfileDraft((draft) => draft && { ...draft, settings: update(draft.settings) });
+    } else {
+      setFormData(update);
+    }
+  };
+  const editingProfile = formData.profiles?.find((profile) => profile.id === profileDraft?.profileId);
+
+  const handleEditProfile = (profile: ProviderProfile) => {
+    setProfileDraft({ profileId: profile.id, settings: applyProfile(formData, profile) });
+  };
+
+  const handleProfilesChange = (profiles: ProviderProfile[]) => {
+    setFormData((prev) => ({ ...prev, profiles }));
+    if (profileDraft && !profiles.some((profile) => profile.id === profileDraft.profileId)) {
+      setProfileDraft(null);
+    }
+  };
+
+  const handleFinishProfileEdit = () => {
+    setFormData((prev) => withProfileDraft(prev, profileDraft));
+    setProfileDraft(null);
+  };
+
+  const modelPricing = formData.modelPricing?.[service.model];
+  const imageInput = formData.imageInput?.[service.model];
+  const retry = formData.retry ?? { maxRetries: DEFAULT_MAX_RETRIES, maxDelayMs: DEFAULT_RETRY_MAX_DELAY_MS };
+
+  const handlePricingChange = (field: keyof ModelPricing, value: string) => {
+    // Prices are kept per model for every profile, so they stay in the main settings
+    setFormData((prev) => {
+      const current = prev.modelPricing?.[service.model] || { promptPerMillion: 0, completionPerMillion: 0 };
+      const updated = { ...current, [field]: parseFloat(value) || 0 };
+      const pricing = { ...prev.modelPricing };
+
+      // Clearing both prices falls back to published prices (if any)
+      if (updated.promptPerMillion || updated.completionPerMillion) {
+        pricing[service.model] = updated;
+      } else {
+        delete pricing[service.model];
+      }
+
+      return { ...prev, modelPricing: pricing };
+    });
+  };
+
+  const handleContextWindowChange = (value: string) => {
+    setFormData((prev) => {
+      const contextWindows = { ...prev.contextWindows };
+      const tokens = parseInt(value);
+
+      // Clearing the field falls back to the fetched or known limit
+      if (tokens > 0) {
+        contextWindows[service.model] = tokens;
+      } else {
+        delete contextWindows[service.model];
+      }
+
+      return { ...prev, contextWindows };
+    });
+  };
+
+  const handleImageInputChange = (value: string) => {
+    // Per model for every profile, like prices
+    setFormData((prev) => {
+      const imageInput = { ...prev.imageInput };
+
+      // Automatic falls back to the known vision models
+      if (value) {
+        imageInput[service.model] = value === 'true';
+      } else {
+        delete imageInput[service.model];
+      }
+
+      return { ...prev, imageInput };
+    });
+  };
 
   const handleSave = async () => {
     try {
-      await updateSettings(formData);
+      await updateSettings(withProfileDraft(formData, profileDraft));
       onClose();
     } catch (error) {
       console.error('Error saving settings:', error);
@@ -46,6 +162,7 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
 
   const handleCancel = () => {
     setFormData(settings);
+    setProfileDraft(null);
     onClose();
   };
 
@@ -103,32 +220,229 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
 
         {/* Content */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <ProfilesSettings
+            profiles={formData.profiles || []}
+            settings={formData}
+            editingProfileId={profileDraft?.profileId}
+            onChange={handleProfilesChange}
+            onEdit={handleEditProfile}
+          />
+
+          {editingProfile && (
+            <div className="flex items-center gap-2 p-3 bg-indigo-50 rounded-lg border border-indigo-200">
+              <p className="flex-1 text-sm text-indigo-900">
+                Editing profile <span className="font-semibold">{editingProfile.name}</span>. The service, key, models
+                and parameters below change this profile only; the main settings are kept.
+              </p>
+              <Button variant="secondary" size="sm" onClick={() => setProfileDraft(null)}>
+                Discard
+              </Button>
+              <Button size="sm" onClick={handleFinishProfileEdit}>
+                Done
+              </Button>
+            </div>
+          )}
+
           <LLMProviderSettings
-            provider={formData.provider}
-            apiEndpoint={formData.apiEndpoint}
+            provider={service.provider}
+            apiEndpoint={service.apiEndpoint}
             onProviderChange={(provider: LLMProvider) => {
               console.log('SettingsPanel: Provider changing to:', provider);
-              setFormData((prev) => ({ ...prev, provider }));
+              setService((prev) => ({ ...prev, provider, models: undefined }));
             }}
+            azure={service.azure}
             onEndpointChange={(apiEndpoint: string) => {
               console.log('SettingsPanel: Endpoint changing to:', apiEndpoint);
-              setFormData((prev) => ({ ...prev, apiEndpoint }));
+              setService((prev) => ({ ...prev, apiEndpoint, models: undefined }));
             }}
+            onAzureChange={(azure) =>
+              setService((prev) => ({
+                ...prev,
+                azure,
+                // Another resource has other deployments
+                ...(azure.resourceName !== prev.azure?.resourceName && { models: undefined }),
+              }))
+            }
+            apiFormat={service.apiFormat}
+            onApiFormatChange={(apiFormat) => setService((prev) => ({ ...prev, apiFormat }))}
           />
 
           <ApiKeyInput
-            value={formData.apiKey}
-            onChange={(apiKey) => setFormData((prev) => ({ ...prev, apiKey }))}
+            value={service.apiKey}
+            onChange={(apiKey) => setService((prev) => ({ ...prev, apiKey }))}
           />
 
           <ModelSelector
-            provider={formData.provider}
-            value={formData.model}
-            onChange={(model) => setFormData((prev) => ({ ...prev, model }))}
-            apiEndpoint={formData.apiEndpoint}
-            apiKey={formData.apiKey}
+            key={profileDraft?.profileId ?? 'main'}
+            provider={service.provider}
+            value={service.model}
+            onChange={(model) => setService((prev) => ({ ...prev, model }))}
+            models={service.models}
+            onModelsChange={(models) => setService((prev) => ({ ...prev, models }))}
+            apiEndpoint={service.apiEndpoint}
+            apiKey={service.apiKey}
+            azure={service.azure}
+          />
+
+          <FallbackModelsSettings
+            primaryProvider={service.provider}
+            fallbackModels={service.fallbackModels || []}
+            firstTokenTimeoutMs={service.firstTokenTimeoutMs}
+            onChange={(fallbackModels) => setService((prev) => ({ ...prev, fallbackModels }))}
+            onTimeoutChange={(firstTokenTimeoutMs) => setService((prev) => ({ ...prev, firstTokenTimeoutMs }))}
           />
 
+          {service.model && (
+            <div>
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  label="Input price ($ / 1M tokens)"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={modelPricing ? String(modelPricing.promptPerMillion) : ''}
+                  onChange={(e) => handlePricingChange('promptPerMillion', e.target.value)}
+                  placeholder="Optional"
+                />
+                <Input
+                  label="Output price ($ / 1M tokens)"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={modelPricing ? String(modelPricing.completionPerMillion) : ''}
+                  onChange={(e) => handlePricingChange('completionPerMillion', e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Used to estimate the cost of each reply with {service.model}.
+                {service.provider === LLMProvider.OPENROUTER && ' Leave empty to use OpenRouter\'s published prices.'}
+              </p>
+              <div className="mt-3">
+                <Input
+                  label="Context window (tokens)"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={formData.contextWindows?.[service.model] ? String(formData.contextWindows[service.model]) : ''}
+                  onChange={(e) => handleContextWindowChange(e.target.value)}
+                  placeholder="Automatic"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Long pages and older messages are trimmed to fit. Leave empty to use the model's known limit.
+                </p>
+              </div>
+              <div className="mt-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Accepts images
+                </label>
+                <select
+                  value={imageInput === undefined ? '' : String(imageInput)}
+                  onChange={(e) => handleImageInputChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="">Automatic (well-known vision models)</option>
+                  <option value="true">Yes</option>
+                  <option value="false">No, text only</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">
+                  Images returned by MCP tools are only sent to models that accept images; others get a placeholder.
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Long pages
+            </label>
+            <select
+              value={formData.longPageMode || 'truncate'}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, longPageMode: e.target.value as LongPageMode }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="truncate">Send what fits (Default)</option>
+              <option value="summarize">Summarize each section first</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              For pages longer than the model can read at once. Summarizing sees the whole page but makes extra requests.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reasoning effort
+            </label>
+            <select
+              value={service.reasoningEffort || ''}
+              onChange={(e) =>
+                setService((prev) => ({
+                  ...prev,
+                  reasoningEffort: (e.target.value || undefined) as ReasoningEffort | undefined,
+                }))
+              }
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            >
+              <option value="">Model default</option>
+              <option value="low">Low</option>
+              <option value="medium">Medium</option>
+              <option value="high">High</option>
+            </select>
+            <p className="mt-1 text-xs text-gray-500">
+              For models that can think before answering. Higher effort is slower and uses more tokens.
+            </p>
+          </div>
+
+          <div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Automatic retries
+                </label>
+                <select
+                  value={retry.maxRetries}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      retry: { ...retry, maxRetries: parseInt(e.target.value) },
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="0">Off</option>
+                  <option value="1">1 retry</option>
+                  <option value="3">3 retries (Default)</option>
+                  <option value="5">5 retries</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Max retry wait
+                </label>
+                <select
+                  value={retry.maxDelayMs}
+                  onChange={(e) =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      retry: { ...retry, maxDelayMs: parseInt(e.target.value) },
+                    }))
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                >
+                  <option value="5000">5 seconds</option>
+                  <option value="15000">15 seconds</option>
+                  <option value="30000">30 seconds (Default)</option>
+                  <option value="60000">60 seconds</option>
+                </select>
+              </div>
+            </div>
+            <p className="mt-1 text-xs text-gray-500">
+              Retry when the service is busy (429), has a server error (5xx) or can't be reached
+            </p>
+          </div>
+
           <TextArea
             label="Instructions for AI"
             value={formData.systemPrompt}
@@ -139,6 +453,16 @@ export function SettingsPanel({ onClose }: SettingsPanelProps) {
             placeholder="Tell the AI how you'd like it to respond..."
           />
 
+          {/* Generation Parameters Section */}
+          <div className="border-t border-gray-200 pt-6">
+            <GenerationSettings
+              generation={service.generation || {}}
+              presets={formData.parameterPresets || []}
+              onGenerationChange={(generation) => setService((prev) => ({ ...prev, generation }))}
+              onPresetsChange={(parameterPresets) => setFormData((prev) => ({ ...prev, parameterPresets }))}
+            />
+          </div>
+
           {/* MCP Settings Section */}
           <div className="border-t border-gray-200 pt-6">
             <MCPSettings />
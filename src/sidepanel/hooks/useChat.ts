@@ -1,27 +1,124 @@
-import { useRef } from 'react';
 import { useChatStore } from '../store/chatStore';
 import { useSettingsStore } from '../store/settingsStore';
-import { MessageType } from '@/shared/types/messages';
-import type { ChatMessage, ImageAttachment } from '@/shared/types/llm';
+import { MessageType, type StreamEvent } from '@/shared/types/messages';
+import type {
+  ChatMessage,
+  ImageAttachment,
+  LLMSettings,
+  ResourceAttachment,
+  TokenUsage,
+  ToolCallRecord,
+} from '@/shared/types/llm';
+import type { ChatSession } from '../store/chatStore';
+import type { ExtractedContent, PageSummary } from '@/shared/types/content';
+import type { ToolApprovalDecision } from '@/shared/types/mcp';
+import { API_KEY_OPTIONAL_PROVIDERS, MAX_PAGE_CHUNK_TOKENS } from '@/shared/constants';
+import { addExtraUsage, addUsage, estimateCost, getModelPricing } from '@/shared/utils/usage';
+import {
+  buildContextMessages,
+  estimateToolDefinitionTokens,
+  type ContextResult,
+  getContextWindow,
+  getResponseReserve,
+  tokensToChars,
+} from '@/shared/utils/contextBudget';
+import { summarizePage } from '@/shared/utils/pageSummary';
+import {
+  getAnsweringSettings,
+  getCompareTargetSettings,
+  getFallbackSettings,
+  getSessionSettings,
+} from '@/shared/utils/profiles';
+import { createResponseCollector } from '@/shared/utils/responseCollector';
+import { toToolResultMessage, withToolResultImages } from '@/shared/utils/toolResults';
+import { supportsImageInput } from '@/shared/utils/modelFamilies';
+import { withResourceContext } from '@/shared/utils/resources';
+
+interface ActiveStream {
+  port: chrome.runtime.Port;
+  streamId: string;
+  markToolAllowed: (toolCallId: string) => void; // Shows an approved tool call as running
+}
+
+/**
+ * The streams currently in flight (several while comparing models)
+ * Module-level because both App (empty state) and ChatInterface call useChat,
+ * and Stop must reach a stream started from either one
+ */
+const activeStream: {
+  streams: ActiveStream[]; // In answer order while comparing
+  preparing: AbortController | null; // Cancels page summarization before the streams start
+  markInterrupted: (() => void) | null; // Flags the message being generated as stopped
+} = {
+  streams: [],
+  preparing: null,
+  markInterrupted: null,
+};
+
+/**
+ * Estimate the size of the MCP tool definitions the background will send
+ */
+async function getToolDefinitionTokens(): Promise<number> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: MessageType.MCP_GET_ALL_STATES });
+    return response.states ? estimateToolDefinitionTokens(response.states) : 0;
+  } catch (error) {
+    console.error('Error fetching MCP server states:', error);
+    return 0;
+  }
+}
+
+function clearActiveStream() {
+  activeStream.streams = [];
+  activeStream.preparing = null;
+  activeStream.markInterrupted = null;
+  useChatStore.getState().setStreamStatus(null);
+}
 
 export function useChat() {
   const {
     getCurrentSession,
+    getSession,
     addMessage,
     setLoading,
     setError,
-    updateLastMessage,
+    updateMessage,
     setMessageError,
+    removeMessagesFrom,
+    setStreamStatus,
+    setPageSummary,
+    updateComparisonAnswer,
   } = useChatStore();
-  const { settings } = useSettingsStore();
-  const streamPortRef = useRef<chrome.runtime.Port | null>(null);
-  const currentStreamIdRef = useRef<string | null>(null);
+  const { settings, updateSettings } = useSettingsStore();
 
   /**
    * Send a message to the LLM with streaming
    */
-  const sendMessage = async (userMessage: string, images?: ImageAttachment[]) => {
-    if (!userMessage.trim() && (!images || images.length === 0)) {
+  const sendMessage = async (userMessage: string, images?: ImageAttachment[], resources?: ResourceAttachment[]) => {
+    if (!userMessage.trim() && (!images || images.length === 0) && (!resources || resources.length === 0)) {
+      return;
+    }
+
+    await sendTurn([{
+      role: 'user',
+      content: userMessage || (images?.length ? 'Here are some images:' : 'Here are some resources:'),
+      timestamp: Date.now(),
+      images,
+      ...(resources?.length && { resources }),
+    }]);
+  };
+
+  /**
+   * Add the messages of an MCP prompt to the conversation
+   * The model answers when the prompt ends with a user message
+   */
+  const sendPromptMessages = async (promptMessages: ChatMessage[]) => {
+    if (promptMessages.length === 0) {
+      return;
+    }
+
+    if (promptMessages[promptMessages.length - 1].role === 'user') {
+      await sendTurn(promptMessages);
       return;
     }
 
@@ -30,8 +127,39 @@ export function useChat() {
       setError('No active session. Please start a new chat.');
       return;
     }
+    promptMessages.forEach((message) => addMessage(currentSession.id, message));
+  };
 
-    if (!settings.apiKey) {
+  /**
+   * Add a user turn (one message, or several from a prompt) and stream the answer
+   */
+  const sendTurn = async (turnMessages: ChatMessage[]) => {
+    const currentSession = getCurrentSession();
+    if (!currentSession) {
+      setError('No active session. Please start a new chat.');
+      return;
+    }
+
+    if (currentSession.messages.some((message) => message.comparison)) {
+      setError('Pick one of the compared answers to continue the conversation.');
+      return;
+    }
+    const sessionId = currentSession.id;
+
+    // In compare mode the message goes to each compared model instead
+    const sessionSettings = getSessionSettings(settings, currentSession);
+    const compareTargets = currentSession.compareTargets || [];
+    const isComparing = compareTargets.length >= 2;
+
+    if (isComparing && compareTargets.some((target) => !target.model.trim())) {
+      setError('Enter a model for each compared model before sending.');
+      return;
+    }
+    const targetSettings = isComparing
+      ? compareTargets.map((target) => getCompareTargetSettings(settings, currentSession, target))
+      : [sessionSettings];
+
+    if (targetSettings.some((s) => !s.apiKey && !API_KEY_OPTIONAL_PROVIDERS.includes(s.provider))) {
       setError('API key not configured. Please update settings.');
       return;
     }
@@ -39,36 +167,44 @@ export function useChat() {
     // Calculate the index BEFORE adding messages
     const currentMessageCount = currentSession.messages.length;
 
-    // Add user message
-    const userChatMessage: ChatMessage = {
-      role: 'user',
-      content: userMessage || 'Here are some images:',
-      timestamp: Date.now(),
-      images,
-    };
-    addMessage(userChatMessage);
+    // Add user message(s)
+    turnMessages.forEach((message) => addMessage(sessionId, message));
+    const assistantMessageIndex = currentMessageCount + turnMessages.length;
 
-    // Add placeholder for assistant message
+    // Add placeholder for assistant message (or for the compared answers)
     const assistantMessage: ChatMessage = {
       role: 'assistant',
       content: '',
       timestamp: Date.now(),
+      model: sessionSettings.model,
+      ...(isComparing && {
+        comparison: compareTargets.map((target, i) => ({
+          profileId: target.profileId,
+          model: targetSettings[i].model,
+          messages: [],
+          status: 'streaming' as const,
+        })),
+      }),
     };
-    addMessage(assistantMessage);
+    addMessage(sessionId, assistantMessage);
 
     setLoading(true);
     setError(null);
 
     try {
-      // Pass the index of the assistant message we just added
-      // It should be: currentMessageCount (previous length) + 1 (user message) = index of assistant message
-      await streamResponse(currentMessageCount + 1);
+      // Pass the index of the assistant message we just added, right after the turn's messages
+      if (isComparing) {
+        await streamComparison(sessionId, assistantMessageIndex, targetSettings);
+      } else {
+        await streamResponse(sessionId, assistantMessageIndex);
+      }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
       setError(errorMessage);
-      setMessageError(currentMessageCount + 1, errorMessage);
+      setMessageError(sessionId, assistantMessageIndex, errorMessage);
       console.error('Error sending message:', err);
       setLoading(false);
+      clearActiveStream();
     }
   };
 
@@ -81,96 +217,406 @@ export function useChat() {
       return;
     }
 
+    const sessionId = currentSession.id;
     const messages = currentSession.messages;
-    const lastAssistantIndex = messages.length - 1;
-    const lastMessage = messages[lastAssistantIndex];
 
-    if (lastMessage.role !== 'assistant') {
+    // The last turn starts after the last user message and may span several
+    // assistant and tool messages when tools were used
+    let lastUserIndex = messages.length - 1;
+    while (lastUserIndex >= 0 && messages[lastUserIndex].role !== 'user') {
+      lastUserIndex--;
+    }
+
+    if (lastUserIndex < 0 || lastUserIndex === messages.length - 1) {
       return;
     }
 
-    // Clear the last message content and error
-    updateLastMessage('');
+    // Replace the whole turn with a fresh assistant placeholder
+    const lastAssistantIndex = lastUserIndex + 1;
+    removeMessagesFrom(sessionId, lastAssistantIndex);
+    addMessage(sessionId, {
+      role: 'assistant',
+      content: '',
+      timestamp: Date.now(),
+      model: getSessionSettings(settings, currentSession).model,
+    });
     setLoading(true);
     setError(null);
 
     try {
-      await streamResponse(lastAssistantIndex);
+      await streamResponse(sessionId, lastAssistantIndex);
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to retry message';
       setError(errorMessage);
-      setMessageError(lastAssistantIndex, errorMessage);
+      setMessageError(sessionId, lastAssistantIndex, errorMessage);
       console.error('Error retrying message:', err);
       setLoading(false);
+      clearActiveStream();
     }
   };
 
+  /**
+   * Count a request whose output isn't kept as a message on the turn's message at messageIndex
+   */
+  const recordExtraUsage = async (
+    sessionId: string,
+    messageIndex: number,
+    usage: TokenUsage,
+    answeringSettings: LLMSettings
+  ) => {
+    const pricing = await getModelPricing(answeringSettings, answeringSettings.model);
+    const message = getSession(sessionId)?.messages[messageIndex];
+    if (!message) {
+      return;
+    }
+
+    updateMessage(sessionId, messageIndex, {
+      extraUsage: addExtraUsage(message.extraUsage, usage, pricing ? estimateCost(usage, pricing) : undefined),
+    });
+  };
+
+  /**
+   * Section summaries of a long page, reusing the session's if the page hasn't changed
+   * Progress shows in the chat; on failure the page is sent truncated instead
+   * The summary requests' usage is counted on the turn's message at messageIndex
+   */
+  const getPageSummary = async (
+    sessionId: string,
+    messageIndex: number,
+    content: ExtractedContent,
+    cached: PageSummary | undefined,
+    requestSettings: LLMSettings,
+    chunkChars: number,
+    signal: AbortSignal
+  ): Promise<PageSummary | null> => {
+    if (cached && cached.url === content.url && cached.textLength === content.textContent.length) {
+      return cached;
+    }
+
+    try {
+      const summary = await summarizePage(
+        content,
+        requestSettings,
+        chunkChars,
+        (done, total) => setStreamStatus(`Summarizing long page: ${done} of ${total} sections`),
+        (usage, answeringSettings) => recordExtraUsage(sessionId, messageIndex, usage, answeringSettings),
+        signal
+      );
+      setPageSummary(sessionId, summary);
+      return summary;
+    } catch (err) {
+      if (signal.aborted) {
+        return null;
+      }
+      console.warn('Page summarization failed, sending the page truncated:', err);
+      return null;
+    } finally {
+      setStreamStatus(null);
+    }
+  };
+
+  /**
+   * Messages for one request: the system prompt, page content and history
+   * before historyEnd, fitted into the model's context window
+   * Stopping aborts `signal`; callers check it before starting their streams
+   */
+  const buildRequestMessages = async (
+    session: ChatSession,
+    historyEnd: number,
+    requestSettings: LLMSettings,
+    signal: AbortSignal
+  ): Promise<ContextResult & { pageSummarySections?: number }> => {
+    const contextInput = {
+      systemPrompt: settings.systemPrompt,
+      content: session.content,
+      // The background leaves them out again for any model of the chain that can't read images
+      history: withToolResultImages(
+        session.messages.slice(0, historyEnd),
+        [requestSettings, ...getFallbackSettings(requestSettings)].some(supportsImageInput)
+      ).map(withResourceContext),
+      toolDefinitionTokens: await getToolDefinitionTokens(),
+      contextWindow: await getContextWindow(requestSettings, requestSettings.model),
+      responseReserve: getResponseReserve(requestSettings),
+    };
+    const result = buildContextMessages(contextInput);
+
+    // A page that doesn't fit can be answered from section summaries instead
+    if (session.content && result.trim?.pageCharsKept !== undefined && requestSettings.longPageMode === 'summarize') {
+      const chunkChars = tokensToChars(
+        Math.min(MAX_PAGE_CHUNK_TOKENS, Math.floor((contextInput.contextWindow - contextInput.responseReserve) / 2))
+      );
+      // Read the cache from the store: another request of this turn may have just filled it
+      const cached = getSession(session.id)?.pageSummary;
+      const summary = await getPageSummary(
+        session.id,
+        historyEnd,
+        session.content,
+        cached,
+        requestSettings,
+        chunkChars,
+        signal
+      );
+
+      if (summary) {
+        return {
+          ...buildContextMessages({
+            ...contextInput,
+            content: { ...session.content, textContent: summary.text },
+          }),
+          pageSummarySections: summary.sections,
+        };
+      }
+    }
+
+    return result;
+  };
+
   /**
    * Stream response from LLM
+   * Everything is written to the session the turn started in, even after switching chats
    */
-  const streamResponse = async (assistantMessageIndex: number) => {
-    const currentSession = getCurrentSession();
+  const streamResponse = async (sessionId: string, assistantMessageIndex: number) => {
+    const currentSession = getSession(sessionId);
     if (!currentSession) {
       throw new Error('No active session');
     }
 
-    // Prepare messages with system prompt and context
-    let systemPromptContent = settings.systemPrompt;
+    // Stop works while the request is prepared, e.g. during a long page summary
+    const preparing = new AbortController();
+    activeStream.preparing = preparing;
+    activeStream.markInterrupted = () => updateMessage(sessionId, assistantMessageIndex, { interrupted: true });
 
-    // Add webpage context if available
-    if (currentSession.content) {
-      systemPromptContent += `\n\nWeb page content:\nTitle: ${currentSession.content.title}\nURL: ${currentSession.content.url}\n\n${currentSession.content.textContent.slice(0, 8000)}`;
-    }
+    // The session's profile and preset replace the main service settings and parameters
+    const requestSettings = getSessionSettings(settings, currentSession);
+    const { messages: allMessages, trim, pageSummarySections } = await buildRequestMessages(
+      currentSession,
+      assistantMessageIndex,
+      requestSettings,
+      preparing.signal
+    );
 
-    const systemMessage: ChatMessage = {
-      role: 'system',
-      content: systemPromptContent,
-      timestamp: Date.now(),
-    };
+    if (preparing.signal.aborted) {
+      return;
+    }
 
-    // Get messages up to the point we want to retry
-    const messagesToSend = currentSession.messages.slice(0, assistantMessageIndex);
+    if (pageSummarySections) {
+      updateMessage(sessionId, assistantMessageIndex, { pageSummarySections });
+    }
 
-    // Add system message at the beginning
-    const allMessages = [systemMessage, ...messagesToSend];
+    if (trim) {
+      console.log('Context trimmed to fit the model:', trim);
+      updateMessage(sessionId, assistantMessageIndex, { contextTrim: trim });
+    }
 
     // Generate unique stream ID
     const streamId = `stream-${Date.now()}`;
-    currentStreamIdRef.current = streamId;
 
     // Connect to streaming port
     const port = chrome.runtime.connect({ name: 'chat-stream' });
-    streamPortRef.current = port;
-
+    // Each tool round splits the turn: the assistant message that made the
+    // calls, one `tool` message per result, then a new assistant message
+    let currentIndex = assistantMessageIndex;
     let accumulatedContent = '';
+    let accumulatedReasoning = '';
+    let toolCalls: ToolCallRecord[] = [];
+    let toolRound: number | null = null;
+    let usage: TokenUsage | undefined;
+    let messageStartedAt = Date.now();
+    let isRetrying = false;
+    let answeringSettings = requestSettings; // Changes if a fallback model takes over
 
-    port.onMessage.addListener((response) => {
-      if (response.streamId !== streamId) {
-        return; // Ignore messages from other streams
+    /**
+     * Store finished tool calls of the current message as `tool` messages
+     * Calls still running or awaiting approval are marked as interrupted and not stored
+     */
+    const saveToolResults = (): number => {
+      const isFinished = (call: ToolCallRecord) => call.status === 'success' || call.status === 'error';
+      const finished = toolCalls.filter(isFinished);
+
+      if (finished.length < toolCalls.length) {
+        toolCalls = toolCalls.map((call) =>
+          isFinished(call) ? call : { ...call, status: 'error', error: 'Interrupted' }
+        );
+        updateMessage(sessionId, currentIndex, { toolCalls });
       }
 
-      switch (response.type) {
-        case MessageType.CHAT_STREAM_CHUNK:
-          accumulatedContent += response.chunk;
-          updateLastMessage(accumulatedContent);
+      finished.forEach((call) => addMessage(sessionId, toToolResultMessage(call)));
+      return finished.length;
+    };
+
+    /**
+     * Tool results went back to the model; its next response is a new message
+     */
+    const startNextAssistantMessage = () => {
+      finalizeMessage();
+      const savedCount = saveToolResults();
+      addMessage(sessionId, {
+        role: 'assistant',
+        content: '',
+        timestamp: Date.now(),
+        model: answeringSettings.model,
+      });
+      currentIndex += savedCount + 1;
+      accumulatedContent = '';
+      accumulatedReasoning = '';
+      toolCalls = [];
+      usage = undefined;
+      messageStartedAt = Date.now();
+    };
+
+    /**
+     * Record latency and estimated cost once a message is complete
+     */
+    const finalizeMessage = () => {
+      const index = currentIndex;
+      const messageUsage = usage;
+
+      updateMessage(sessionId, index, { latencyMs: Date.now() - messageStartedAt });
+
+      if (messageUsage) {
+        getModelPricing(answeringSettings, answeringSettings.model).then((pricing) => {
+          if (pricing) {
+            updateMessage(sessionId, index, { costUsd: estimateCost(messageUsage, pricing) });
+          }
+        });
+      }
+    };
+
+    /**
+     * Finish the turn, keeping whatever tool results came back
+     */
+    const finishTurn = () => {
+      finalizeMessage();
+      if (toolCalls.length > 0) {
+        saveToolResults();
+      }
+    };
+
+    const markToolAllowed = (toolCallId: string) => {
+      toolCalls = toolCalls.map((call) => (call.id === toolCallId ? { ...call, status: 'running' } : call));
+      updateMessage(sessionId, currentIndex, { toolCalls });
+    };
+
+    activeStream.streams = [{ port, streamId, markToolAllowed }];
+    activeStream.preparing = null;
+    activeStream.markInterrupted = () => {
+      updateMessage(sessionId, currentIndex, { interrupted: true });
+      finishTurn();
+    };
+
+    const handleStreamEvent = (event: StreamEvent) => {
+      // Any progress after a retry notice means the retry went through
+      if (isRetrying && event.type !== 'retrying') {
+        isRetrying = false;
+        setStreamStatus(null);
+      }
+
+      switch (event.type) {
+        case 'model_fallback':
+          // Price later messages with the fallback's own provider and key
+          answeringSettings = getAnsweringSettings(requestSettings, event.provider, event.model);
+          updateMessage(sessionId, currentIndex, { model: event.model, fallbackReason: event.reason });
+          break;
+
+        case 'retrying':
+          isRetrying = true;
+          setStreamStatus(
+            `${event.reason}, retrying in ${Math.ceil(event.delayMs / 1000)}s (attempt ${event.attempt} of ${event.maxRetries})`
+          );
+          break;
+
+        case 'text_delta':
+          if (toolCalls.length > 0) {
+            startNextAssistantMessage();
+          }
+          accumulatedContent += event.text;
+          updateMessage(sessionId, currentIndex, { content: accumulatedContent });
+          break;
+
+        case 'usage':
+          usage = addUsage(usage, event.usage);
+          updateMessage(sessionId, currentIndex, { usage });
+          break;
+
+        case 'reasoning_delta':
+          if (toolCalls.length > 0) {
+            startNextAssistantMessage();
+          }
+          accumulatedReasoning += event.text;
+          updateMessage(sessionId, currentIndex, { reasoning: accumulatedReasoning });
+          break;
+
+        case 'tool_call_started':
+          if (toolCalls.length > 0 && event.round !== toolRound) {
+            startNextAssistantMessage();
+          }
+          toolRound = event.round;
+          toolCalls = [
+            ...toolCalls,
+            {
+              id: event.toolCallId,
+              serverId: event.serverId,
+              toolName: event.toolName,
+              arguments: event.arguments,
+              status: 'running',
+            },
+          ];
+          updateMessage(sessionId, currentIndex, { toolCalls });
+          break;
+
+        case 'tool_approval_requested':
+          toolCalls = toolCalls.map((call) =>
+            call.id === event.toolCallId ? { ...call, status: 'awaiting_approval' } : call
+          );
+          updateMessage(sessionId, currentIndex, { toolCalls });
           break;
 
-        case MessageType.CHAT_STREAM_END:
-          console.log('Stream completed');
+        case 'tool_call_finished':
+          toolCalls = toolCalls.map((call) =>
+            call.id === event.toolCallId
+              ? {
+                  ...call,
+                  status: event.error ? 'error' : 'success',
+                  result: event.result,
+                  error: event.error,
+                  durationMs: event.durationMs,
+                }
+              : call
+          );
+          updateMessage(sessionId, currentIndex, { toolCalls });
+          break;
+
+        case 'done':
+          console.log('Stream completed:', event.finishReason);
+          if (event.finishReason) {
+            updateMessage(sessionId, currentIndex, { finishReason: event.finishReason });
+          }
+          finishTurn();
           setLoading(false);
           port.disconnect();
-          streamPortRef.current = null;
-          currentStreamIdRef.current = null;
+          clearActiveStream();
+          break;
+      }
+    };
+
+    port.onMessage.addListener((response) => {
+      if (response.streamId !== streamId) {
+        return; // Ignore messages from other streams
+      }
+
+      switch (response.type) {
+        case MessageType.CHAT_STREAM_EVENT:
+          handleStreamEvent(response.event);
           break;
 
         case MessageType.CHAT_STREAM_ERROR:
           console.error('Stream error:', response.error);
           setError(response.error);
-          setMessageError(assistantMessageIndex, response.error);
+          setMessageError(sessionId, currentIndex, response.error);
+          finishTurn();
           setLoading(false);
           port.disconnect();
-          streamPortRef.current = null;
-          currentStreamIdRef.current = null;
+          clearActiveStream();
           break;
       }
     });
@@ -178,22 +624,229 @@ export function useChat() {
     port.onDisconnect.addListener(() => {
       console.log('Port disconnected');
       setLoading(false);
-      streamPortRef.current = null;
-      currentStreamIdRef.current = null;
+      clearActiveStream();
     });
 
     // Send streaming request
     port.postMessage({
       type: MessageType.SEND_CHAT_MESSAGE,
       messages: allMessages,
-      settings,
+      settings: requestSettings,
       stream: true,
       streamId,
     });
   };
 
+  /**
+   * Stream one turn from every compared model at once
+   * Each answer streams into its own slot of the comparison message at
+   * messageIndex; the conversation continues with the answer the user picks
+   */
+  const streamComparison = async (sessionId: string, messageIndex: number, targetSettings: LLMSettings[]) => {
+    const currentSession = getSession(sessionId);
+    if (!currentSession) {
+      throw new Error('No active session');
+    }
+
+    // Stop works while the requests are prepared, e.g. during a long page summary
+    const preparing = new AbortController();
+    activeStream.preparing = preparing;
+    activeStream.markInterrupted = () => {
+      targetSettings.forEach((requestSettings, answerIndex) => {
+        updateComparisonAnswer(sessionId, messageIndex, answerIndex, {
+          messages: [
+            { role: 'assistant', content: '', timestamp: Date.now(), model: requestSettings.model, interrupted: true },
+          ],
+          status: 'done',
+        });
+      });
+    };
+
+    // Prepared one after another so a long page is only summarized once
+    const requests: Array<{ requestSettings: LLMSettings; messages: ChatMessage[]; notes: Partial<ChatMessage> }> = [];
+    for (const requestSettings of targetSettings) {
+      const { messages, trim, pageSummarySections } = await buildRequestMessages(
+        currentSession,
+        messageIndex,
+        requestSettings,
+        preparing.signal
+      );
+      if (preparing.signal.aborted) {
+        return;
+      }
+      const notes = { ...(trim && { contextTrim: trim }), ...(pageSummarySections && { pageSummarySections }) };
+      requests.push({ requestSettings, messages, notes });
+    }
+    activeStream.preparing = null;
+
+    let remaining = requests.length;
+    const finishers: Array<(error?: string, interrupted?: boolean) => void> = [];
+
+    activeStream.streams = requests.map(({ requestSettings, messages, notes }, answerIndex) => {
+      const streamId = `stream-${Date.now()}-${answerIndex}`;
+      const port = chrome.runtime.connect({ name: 'chat-stream' });
+      const collector = createResponseCollector(requestSettings.model);
+      const startedAt = Date.now();
+      let finished = false;
+
+      // Trim and summary notes belong on the answer's first message
+      const withNotes = (answerMessages: ChatMessage[]) =>
+        answerMessages.map((message, i) => (i === 0 ? { ...message, ...notes } : message));
+
+      /**
+       * Store the final messages with latency and cost, then end the stream
+       */
+      const finish = async (error?: string, interrupted?: boolean) => {
+        if (finished) return;
+        finished = true;
+
+        const response = collector.getResponse(error);
+        let answerMessages = withNotes(response.messages || []);
+        const last = answerMessages.length - 1;
+        answerMessages[last] = {
+          ...answerMessages[last],
+          latencyMs: Date.now() - startedAt,
+          ...(interrupted && { interrupted: true }),
+        };
+
+        const pricing = await getModelPricing(requestSettings, response.model || requestSettings.model);
+        if (pricing) {
+          answerMessages = answerMessages.map((message) =>
+            message.usage ? { ...message, costUsd: estimateCost(message.usage, pricing) } : message
+          );
+        }
+
+        updateComparisonAnswer(sessionId, messageIndex, answerIndex, {
+          messages: answerMessages,
+          status: error ? 'error' : 'done',
+        });
+
+        port.disconnect();
+        // Stop already reset the state, and a newer turn may be streaming by now
+        const isActive = activeStream.streams.some((stream) => stream.streamId === streamId);
+        if (--remaining === 0 && isActive) {
+          setLoading(false);
+          clearActiveStream();
+        }
+      };
+      finishers.push(finish);
+
+      port.onMessage.addListener((response) => {
+        if (response.streamId !== streamId) {
+          return; // Ignore messages from other streams
+        }
+
+        switch (response.type) {
+          case MessageType.CHAT_STREAM_EVENT:
+            collector.onEvent(response.event);
+            if (response.event.type === 'done') {
+              finish();
+            } else {
+              updateComparisonAnswer(sessionId, messageIndex, answerIndex, { messages: withNotes(collector.getMessages()) });
+            }
+            break;
+
+          case MessageType.CHAT_STREAM_ERROR:
+            console.error(`Stream error (${requestSettings.model}):`, response.error);
+            finish(response.error);
+            break;
+        }
+      });
+
+      port.onDisconnect.addListener(() => {
+        finish(finished ? undefined : 'Connection to the background closed');
+      });
+
+      port.postMessage({
+        type: MessageType.SEND_CHAT_MESSAGE,
+        messages,
+        settings: requestSettings,
+        stream: true,
+        streamId,
+      });
+
+      const markToolAllowed = (toolCallId: string) => {
+        collector.markToolAllowed(toolCallId);
+        updateComparisonAnswer(sessionId, messageIndex, answerIndex, { messages: withNotes(collector.getMessages()) });
+      };
+
+      return { port, streamId, markToolAllowed };
+    });
+
+    activeStream.markInterrupted = () => {
+      finishers.forEach((finish) => finish(undefined, true));
+    };
+  };
+
+  /**
+   * Stop the in-flight response, keeping whatever was generated so far
+   */
+  const stopGeneration = () => {
+    const { streams, preparing, markInterrupted } = activeStream;
+    if (streams.length === 0 && !preparing) {
+      return;
+    }
+
+    // Cancel a page summary still running before the streams start
+    preparing?.abort();
+
+    // Cancel the requests and any running tools in the background
+    streams.forEach(({ port, streamId }) => {
+      port.postMessage({
+        type: MessageType.CHAT_STREAM_ABORT,
+        streamId,
+      });
+    });
+
+    markInterrupted?.();
+
+    setLoading(false);
+    streams.forEach(({ port }) => port.disconnect());
+    clearActiveStream();
+  };
+
+  /**
+   * Answer a tool call waiting for approval
+   * "Always allow" is saved as the tool's policy before the tool runs
+   * @param answerIndex Which compared answer the call belongs to, when comparing models
+   */
+  const respondToToolApproval = async (call: ToolCallRecord, decision: ToolApprovalDecision, answerIndex = 0) => {
+    if (decision === 'allow_always' && call.serverId && settings.mcp) {
+      await updateSettings({
+        mcp: {
+          ...settings.mcp,
+          servers: settings.mcp.servers.map((server) =>
+            server.id === call.serverId
+              ? { ...server, toolPolicies: { ...server.toolPolicies, [call.toolName]: 'allow' } }
+              : server
+          ),
+        },
+      });
+    }
+
+    // Tool call ids can repeat across compared answers, so only the asking stream is told
+    const stream = activeStream.streams[answerIndex];
+    if (!stream) {
+      return;
+    }
+
+    stream.port.postMessage({
+      type: MessageType.TOOL_APPROVAL_RESPONSE,
+      streamId: stream.streamId,
+      toolCallId: call.id,
+      decision,
+    });
+
+    if (decision !== 'deny') {
+      stream.markToolAllowed(call.id);
+    }
+  };
+
   return {
     sendMessage,
+    sendPromptMessages,
     retryLastMessage,
+    stopGeneration,
+    respondToToolApproval,
   };
 }
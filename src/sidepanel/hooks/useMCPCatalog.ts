@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { MessageType } from '@/shared/types/messages';
+import type {
+  MCPEmbeddedResource,
+  MCPPrompt,
+  MCPPromptMessage,
+  MCPResource,
+  MCPServerState,
+} from '@/shared/types/mcp';
+import { useSettingsStore } from '../store/settingsStore';
+
+/**
+ * A resource offered by a connected server
+ */
+export interface ServerResource extends MCPResource {
+  serverId: string;
+  serverName: string;
+}
+
+/**
+ * A prompt template offered by a connected server
+ */
+export interface ServerPrompt extends MCPPrompt {
+  serverId: string;
+  serverName: string;
+}
+
+/**
+ * Hook to list resources and prompts of connected MCP servers and use them
+ * Lists are only fetched while `enabled`, e.g. while a picker is open
+ */
+export function useMCPCatalog(enabled: boolean) {
+  const { settings } = useSettingsStore();
+  const [resources, setResources] = useState<ServerResource[]>([]);
+  const [prompts, setPrompts] = useState<ServerPrompt[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    chrome.runtime
+      .sendMessage({ type: MessageType.MCP_GET_ALL_STATES })
+      .then((response) => {
+        if (cancelled || !response.states) return;
+
+        const serverNames = new Map((settings.mcp?.servers || []).map((s) => [s.id, s.name]));
+        const connected = (response.states as MCPServerState[]).filter((state) => state.status === 'connected');
+        const withServer = <T,>(state: MCPServerState, item: T) => ({
+          ...item,
+          serverId: state.serverId,
+          serverName: serverNames.get(state.serverId) || state.serverId,
+        });
+
+        setResources(connected.flatMap((state) => state.resources.map((resource) => withServer(state, resource))));
+        setPrompts(connected.flatMap((state) => (state.prompts || []).map((prompt) => withServer(state, prompt))));
+      })
+      .catch((error) => console.error('Error fetching MCP resources and prompts:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  /**
+   * Send a request to the background and unwrap its MCP result
+   */
+  const request = async <T,>(message: Record<string, unknown>, fallbackError: string): Promise<T> => {
+    const response = await chrome.runtime.sendMessage(message);
+
+    if (response.error || !response.result?.success) {
+      throw new Error(response.error || response.result?.error || fallbackError);
+    }
+
+    return response.result.content || [];
+  };
+
+  /**
+   * Read a resource's contents through the background
+   */
+  const readResource = (serverId: string, uri: string): Promise<MCPEmbeddedResource[]> =>
+    request({ type: MessageType.MCP_READ_RESOURCE, serverId, uri }, 'Failed to read resource');
+
+  /**
+   * Fill in a prompt template through the background
+   */
+  const getPrompt = (serverId: string, name: string, args: Record<string, string>): Promise<MCPPromptMessage[]> =>
+    request({ type: MessageType.MCP_GET_PROMPT, serverId, name, arguments: args }, 'Failed to get prompt');
+
+  return {
+    resources,
+    prompts,
+    isLoading,
+    readResource,
+    getPrompt,
+  };
+}
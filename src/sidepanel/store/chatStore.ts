@@ -1,7 +1,8 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { ChatMessage } from '@/shared/types/llm';
-import type { ExtractedContent } from '@/shared/types/content';
+import type { ChatMessage, CompareTarget, ComparisonAnswer } from '@/shared/types/llm';
+import type { ExtractedContent, PageSummary } from '@/shared/types/content';
+import { addDiscardedUsage } from '@/shared/utils/usage';
 
 // Maximum number of sessions to keep (prevent unlimited growth)
 const MAX_SESSIONS = 50;
@@ -55,6 +56,10 @@ export interface ChatSession {
   createdAt: number;
   updatedAt: number;
   tabId?: number; // Track which browser tab this session belongs to
+  presetId?: string; // Parameter preset used for this chat (default parameters when unset)
+  profileId?: string; // Provider profile used for this chat (main settings when unset)
+  compareTargets?: CompareTarget[]; // Set while compare mode is on: each message goes to all of these
+  pageSummary?: PageSummary; // Section summaries of a page too long to send in full
 }
 
 interface ChatState {
@@ -62,6 +67,7 @@ interface ChatState {
   currentSessionId: string | null;
   isLoading: boolean;
   error: string | null;
+  streamStatus: string | null; // Transient progress note while generating (e.g. retrying)
 
   // Session management
   createSession: (content: ExtractedContent | null, tabId?: number) => string;
@@ -72,19 +78,33 @@ interface ChatState {
   deleteOldestSessions: (count: number) => void;
   clearAllSessions: () => void;
   getCurrentSession: () => ChatSession | null;
+  getSession: (sessionId: string) => ChatSession | null;
 
-  // Message management
-  addMessage: (message: ChatMessage) => void;
-  updateLastMessage: (content: string) => void;
-  setMessageError: (messageIndex: number, error: string) => void;
+  // Message management (by session, so answers finish in the chat they started in)
+  addMessage: (sessionId: string, message: ChatMessage) => void;
+  updateMessage: (sessionId: string, messageIndex: number, updates: Partial<ChatMessage>) => void;
+  setMessageError: (sessionId: string, messageIndex: number, error: string) => void;
+  removeMessagesFrom: (sessionId: string, messageIndex: number) => void;
   clearMessages: () => void;
+  updateComparisonAnswer: (
+    sessionId: string,
+    messageIndex: number,
+    answerIndex: number,
+    updates: Partial<ComparisonAnswer>
+  ) => void;
+  pickComparisonAnswer: (sessionId: string, messageIndex: number, answerIndex: number) => void;
 
   // Content management
   setContent: (content: ExtractedContent | null) => void;
+  setSessionPreset: (presetId: string | null) => void;
+  setSessionProfile: (profileId: string | null) => void;
+  setCompareTargets: (targets: CompareTarget[] | null) => void;
+  setPageSummary: (sessionId: string, summary: PageSummary) => void;
 
   // State management
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
+  setStreamStatus: (status: string | null) => void;
 }
 
 export const useChatStore = create<ChatState>()(
@@ -94,6 +114,7 @@ export const useChatStore = create<ChatState>()(
       currentSessionId: null,
       isLoading: false,
       error: null,
+      streamStatus: null,
 
       /**
        * Create a new chat session
@@ -221,78 +242,80 @@ export const useChatStore = create<ChatState>()(
       },
 
       /**
-       * Add a new message to the current session
+       * Get a session by ID
        */
-      addMessage: (message) =>
+      getSession: (sessionId: string) => {
+        return get().sessions.find((s) => s.id === sessionId) || null;
+      },
+
+      /**
+       * Add a new message to a session
+       * Streaming writes name their session, so switching chats mid-answer is safe
+       */
+      addMessage: (sessionId, message) =>
         set((state) => {
-          const currentSession = state.sessions.find(
-            (s) => s.id === state.currentSessionId
-          );
+          const session = state.sessions.find((s) => s.id === sessionId);
 
-          if (!currentSession) {
+          if (!session) {
             return state;
           }
 
           const updatedSession = {
-            ...currentSession,
-            messages: [...currentSession.messages, message],
+            ...session,
+            messages: [...session.messages, message],
             updatedAt: Date.now(),
           };
 
           return {
             sessions: state.sessions.map((s) =>
-              s.id === state.currentSessionId ? updatedSession : s
+              s.id === sessionId ? updatedSession : s
             ),
             error: null,
           };
         }),
 
       /**
-       * Update the last message content (for streaming)
+       * Merge updates into a specific message of a session
        */
-      updateLastMessage: (content) =>
+      updateMessage: (sessionId, messageIndex, updates) =>
         set((state) => {
-          const currentSession = state.sessions.find(
-            (s) => s.id === state.currentSessionId
-          );
+          const session = state.sessions.find((s) => s.id === sessionId);
 
-          if (!currentSession || currentSession.messages.length === 0) {
+          if (!session || messageIndex >= session.messages.length) {
             return state;
           }
 
-          const messages = [...currentSession.messages];
-          messages[messages.length - 1] = {
-            ...messages[messages.length - 1],
-            content,
+          const messages = [...session.messages];
+          messages[messageIndex] = {
+            ...messages[messageIndex],
+            ...updates,
           };
 
           const updatedSession = {
-            ...currentSession,
+            ...session,
             messages,
             updatedAt: Date.now(),
           };
 
           return {
             sessions: state.sessions.map((s) =>
-              s.id === state.currentSessionId ? updatedSession : s
+              s.id === sessionId ? updatedSession : s
             ),
           };
         }),
 
       /**
-       * Set error for a specific message
+       * Set error for a specific message of a session
        */
-      setMessageError: (messageIndex: number, error: string) =>
+      setMessageError: (sessionId, messageIndex, error) =>
         set((state) => {
-          const currentSession = state.sessions.find(
-            (s) => s.id === state.currentSessionId
-          );
+          const session = state.sessions.find((s) => s.id === sessionId);
 
-          if (!currentSession) {
+          if (!session) {
             return state;
           }
 
-          const messages = [...currentSession.messages];
+          const messages = [...session.messages];
           if (messageIndex < messages.length) {
             messages[messageIndex] = {
               ...messages[messageIndex],
@@ -301,14 +324,111 @@ export const useChatStore = create<ChatState>()(
           }
 
           const updatedSession = {
-            ...currentSession,
+            ...session,
             messages,
             updatedAt: Date.now(),
           };
 
           return {
             sessions: state.sessions.map((s) =>
-              s.id === state.currentSessionId ? updatedSession : s
+              s.id === sessionId ? updatedSession : s
+            ),
+          };
+        }),
+
+      /**
+       * Remove a message and everything after it from a session
+       */
+      removeMessagesFrom: (sessionId, messageIndex) =>
+        set((state) => {
+          const session = state.sessions.find((s) => s.id === sessionId);
+
+          if (!session) {
+            return state;
+          }
+
+          const updatedSession = {
+            ...session,
+            messages: session.messages.slice(0, messageIndex),
+            updatedAt: Date.now(),
+          };
+
+          return {
+            sessions: state.sessions.map((s) =>
+              s.id === sessionId ? updatedSession : s
+            ),
+          };
+        }),
+
+      /**
+       * Update one answer of a comparison in the session it was started in
+       * Answers stream in parallel, so each update merges into the latest state
+       */
+      updateComparisonAnswer: (sessionId, messageIndex, answerIndex, updates) =>
+        set((state) => {
+          const session = state.sessions.find((s) => s.id === sessionId);
+          const comparison = session?.messages[messageIndex]?.comparison;
+
+          if (!session || !comparison?.[answerIndex]) {
+            return state;
+          }
+
+          const messages = [...session.messages];
+          messages[messageIndex] = {
+            ...messages[messageIndex],
+            comparison: comparison.map((answer, i) => (i === answerIndex ? { ...answer, ...updates } : answer)),
+          };
+
+          const updatedSession = {
+            ...session,
+            messages,
+            updatedAt: Date.now(),
+          };
+
+          return {
+            sessions: state.sessions.map((s) =>
+              s.id === sessionId ? updatedSession : s
+            ),
+          };
+        }),
+
+      /**
+       * Continue the conversation with one answer of a comparison
+       * The comparison is replaced by that answer's messages; the others are discarded
+       * The turn's extra usage (e.g. page summaries) and the usage of the discarded
+       * answers move to the picked answer's first message, so the chat total keeps them
+       */
+      pickComparisonAnswer: (sessionId, messageIndex, answerIndex) =>
+        set((state) => {
+          const session = state.sessions.find((s) => s.id === sessionId);
+          const comparisonMessage = session?.messages[messageIndex];
+          const answer = comparisonMessage?.comparison?.[answerIndex];
+
+          if (!session || !answer) {
+            return state;
+          }
+
+          const discardedMessages = (comparisonMessage?.comparison || [])
+            .filter((_, i) => i !== answerIndex)
+            .flatMap((other) => other.messages);
+          const extraUsage = addDiscardedUsage(comparisonMessage?.extraUsage, discardedMessages);
+
+          const answerMessages = answer.messages.map((message, i) =>
+            i === 0 && extraUsage ? { ...message, extraUsage } : message
+          );
+
+          const messages = [...session.messages];
+          messages.splice(messageIndex, 1, ...answerMessages);
+
+          const updatedSession = {
+            ...session,
+            messages,
+            updatedAt: Date.now(),
+          };
+
+          return {
+            sessions: state.sessions.map((s) =>
+              s.id === sessionId ? updatedSession : s
             ),
           };
         }),
@@ -368,6 +488,52 @@ export const useChatStore = create<ChatState>()(
           };
         }),
 
+      /**
+       * Choose the parameter preset for the current session
+       */
+      setSessionPreset: (presetId) =>
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === state.currentSessionId
+              ? { ...s, presetId: presetId ?? undefined }
+              : s
+          ),
+        })),
+
+      /**
+       * Choose the provider profile for the current session
+       */
+      setSessionProfile: (profileId) =>
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === state.currentSessionId
+              ? { ...s, profileId: profileId ?? undefined }
+              : s
+          ),
+        })),
+
+      /**
+       * Turn compare mode on (with the models to compare) or off for the current session
+       */
+      setCompareTargets: (targets) =>
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === state.currentSessionId
+              ? { ...s, compareTargets: targets ?? undefined }
+              : s
+          ),
+        })),
+
+      /**
+       * Keep the section summaries of a session's page for follow-up questions
+       */
+      setPageSummary: (sessionId, pageSummary) =>
+        set((state) => ({
+          sessions: state.sessions.map((s) =>
+            s.id === sessionId ? { ...s, pageSummary } : s
+          ),
+        })),
+
       /**
        * Set loading state
        */
@@ -377,6 +543,11 @@ export const useChatStore = create<ChatState>()(
        * Set error message
        */
       setError: (error) => set({ error }),
+
+      /**
+       * Set transient stream status
+       */
+      setStreamStatus: (streamStatus) => set({ streamStatus }),
     }),
     {
       name: 'chat-history-storage',